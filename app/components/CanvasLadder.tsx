@@ -0,0 +1,230 @@
+"use client"
+
+import { memo, useEffect, useRef, useState, type MouseEvent } from "react"
+import type { OrderbookLevel } from "../types/orderbook"
+
+const ROW_HEIGHT = 28
+const ROW_GAP = 4
+const PADDING_X = 12
+const FONT = "12px ui-monospace, SFMono-Regular, Menlo, monospace"
+const BOLD_FONT = `bold ${FONT}`
+
+const SIDE_COLORS = {
+  ask: {
+    price: "#dc2626",
+    row: "rgba(239, 68, 68, 0.06)",
+    hovered: "rgba(239, 68, 68, 0.14)",
+    selected: "rgba(239, 68, 68, 0.2)",
+    border: "#f87171",
+    bar: "rgba(239, 68, 68, 0.16)",
+    track: "rgba(239, 68, 68, 0.25)",
+    fill: "#ef4444",
+  },
+  bid: {
+    price: "#16a34a",
+    row: "rgba(34, 197, 94, 0.06)",
+    hovered: "rgba(34, 197, 94, 0.14)",
+    selected: "rgba(34, 197, 94, 0.2)",
+    border: "#4ade80",
+    bar: "rgba(34, 197, 94, 0.16)",
+    track: "rgba(34, 197, 94, 0.25)",
+    fill: "#22c55e",
+  },
+}
+
+const SIMULATED_FILL = "rgba(250, 204, 21, 0.25)"
+const SIMULATED_BORDER = "#facc15"
+const SWEPT_FILL = "rgba(59, 130, 246, 0.18)"
+const SWEPT_BORDER = "#60a5fa"
+const TRIGGER_LINE = "#a855f7"
+
+interface CanvasLadderProps {
+  side: "bid" | "ask"
+  // Levels in the order they are drawn, top row first
+  levels: OrderbookLevel[]
+  // Cumulative size at each level, in the same order
+  totals: number[]
+  maxQuantity: number
+  hoveredPrice: number | null
+  selectedPrice: number | null
+  // Level a simulated order rests at on this side, already grouped like the levels
+  simulatedPrice: number | null
+  // Lowest and highest price a simulated marketable order took liquidity from on this side
+  filledRange: [number, number] | null
+  // Armed trigger prices on this side, drawn as lines between the rows they fall between
+  triggerPrices: number[]
+  onHover: (price: number, side: "bid" | "ask") => void
+  onLeave: () => void
+  onSelect: (price: number, side: "bid" | "ask") => void
+}
+
+function roundedRect(context: CanvasRenderingContext2D, x: number, y: number, width: number, height: number) {
+  context.beginPath()
+  context.roundRect(x, y, width, height, 6)
+}
+
+// Draws the same columns as the DOM ladder (price, size, total, volume) on one canvas, so hundreds of levels cost a
+// single element instead of a few DOM nodes each
+function CanvasLadder({
+  side,
+  levels,
+  totals,
+  maxQuantity,
+  hoveredPrice,
+  selectedPrice,
+  simulatedPrice,
+  filledRange,
+  triggerPrices,
+  onHover,
+  onLeave,
+  onSelect,
+}: CanvasLadderProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const [width, setWidth] = useState(0)
+  const height = levels.length * (ROW_HEIGHT + ROW_GAP)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)))
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext("2d")
+    if (!canvas || !context || width === 0) return
+
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = width * ratio
+    canvas.height = height * ratio
+    context.setTransform(ratio, 0, 0, ratio, 0, 0)
+    context.clearRect(0, 0, width, height)
+
+    const colors = SIDE_COLORS[side]
+    // Follows the Tailwind text colour on the element, so light and dark themes both read
+    const textColor = getComputedStyle(canvas).color
+    const columnWidth = (width - PADDING_X * 2) / 4
+    context.textBaseline = "middle"
+
+    levels.forEach((level, index) => {
+      const y = index * (ROW_HEIGHT + ROW_GAP)
+      const middle = y + ROW_HEIGHT / 2
+      const volumeWidth = Math.max((level.quantity / maxQuantity) * 100, 5)
+      const isSimulated = simulatedPrice !== null && Math.abs(simulatedPrice - level.price) < 1e-9
+      const isSwept = filledRange !== null && level.price >= filledRange[0] && level.price <= filledRange[1]
+      const isSelected = selectedPrice === level.price
+      const isHovered = hoveredPrice === level.price
+
+      roundedRect(context, 0, y, width, ROW_HEIGHT)
+      context.fillStyle = isSimulated
+        ? SIMULATED_FILL
+        : isSwept
+          ? SWEPT_FILL
+          : isSelected
+            ? colors.selected
+            : isHovered
+              ? colors.hovered
+              : colors.row
+      context.fill()
+      if (isSimulated || isSwept || isSelected) {
+        context.lineWidth = 2
+        context.strokeStyle = isSimulated ? SIMULATED_BORDER : isSwept ? SWEPT_BORDER : colors.border
+        context.setLineDash(isSwept && !isSimulated ? [4, 3] : [])
+        context.stroke()
+        context.setLineDash([])
+      }
+
+      // Volume bar behind the row
+      roundedRect(context, 0, y, (width * volumeWidth) / 100, ROW_HEIGHT)
+      context.fillStyle = colors.bar
+      context.fill()
+
+      context.font = BOLD_FONT
+      context.textAlign = "left"
+      context.fillStyle = colors.price
+      context.fillText(`$${level.price.toFixed(2)}`, PADDING_X, middle)
+
+      context.font = FONT
+      context.textAlign = "right"
+      context.fillStyle = textColor
+      context.fillText(level.quantity.toFixed(4), PADDING_X + columnWidth * 2, middle)
+      context.globalAlpha = 0.7
+      context.fillText(totals[index].toFixed(4), PADDING_X + columnWidth * 3, middle)
+      context.globalAlpha = 1
+
+      // Volume column
+      const trackX = PADDING_X + columnWidth * 3 + 16
+      const trackWidth = Math.max(width - PADDING_X - trackX, 0)
+      roundedRect(context, trackX, middle - 4, trackWidth, 8)
+      context.fillStyle = colors.track
+      context.fill()
+      roundedRect(context, trackX, middle - 4, (trackWidth * volumeWidth) / 100, 8)
+      context.fillStyle = colors.fill
+      context.fill()
+    })
+
+    // Rows run from the highest price down, so a trigger sits above the first row at or below it
+    context.lineWidth = 2
+    context.strokeStyle = TRIGGER_LINE
+    context.setLineDash([6, 4])
+    triggerPrices.forEach((price) => {
+      const index = levels.findIndex((level) => level.price <= price)
+      const y = Math.min(
+        Math.max((index === -1 ? levels.length : index) * (ROW_HEIGHT + ROW_GAP) - ROW_GAP / 2, 1),
+        height - 1,
+      )
+      context.beginPath()
+      context.moveTo(0, y)
+      context.lineTo(width, y)
+      context.stroke()
+    })
+    context.setLineDash([])
+  }, [
+    side,
+    levels,
+    totals,
+    maxQuantity,
+    hoveredPrice,
+    selectedPrice,
+    simulatedPrice,
+    filledRange,
+    triggerPrices,
+    width,
+    height,
+  ])
+
+  const levelAt = (event: MouseEvent<HTMLCanvasElement>) => {
+    const index = Math.floor(event.nativeEvent.offsetY / (ROW_HEIGHT + ROW_GAP))
+    return levels[index] ?? null
+  }
+
+  const hoveredLevel = hoveredPrice === null ? null : levels.find((level) => level.price === hoveredPrice)
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="block w-full cursor-pointer text-slate-700 dark:text-slate-300"
+      style={{ height }}
+      title={
+        hoveredLevel ? `Click to select • $${hoveredLevel.price.toFixed(2)} × ${hoveredLevel.quantity.toFixed(4)}` : ""
+      }
+      onMouseMove={(event) => {
+        const level = levelAt(event)
+        if (!level) {
+          if (hoveredPrice !== null) onLeave()
+        } else if (level.price !== hoveredPrice) {
+          onHover(level.price, side)
+        }
+      }}
+      onMouseLeave={onLeave}
+      onClick={(event) => {
+        const level = levelAt(event)
+        if (level) onSelect(level.price, side)
+      }}
+    />
+  )
+}
+
+export default memo(CanvasLadder)
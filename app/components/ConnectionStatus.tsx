@@ -0,0 +1,102 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import type { ConnectionState } from "../types/orderbook"
+import { Wifi, WifiOff, Loader2, Power, Hourglass } from "lucide-react"
+
+interface ConnectionStatusProps {
+  connectionState: ConnectionState
+  isStale: boolean
+  // Open but silent for longer than the watchdog window
+  isFeedStale: boolean
+  lastUpdateAt: number | null
+  nextRetryAt: number | null
+  retryAttempt: number
+  maxRetries: number
+  onReconnect: () => void
+  onDisconnect: () => void
+}
+
+export default function ConnectionStatus({
+  connectionState,
+  isStale,
+  isFeedStale,
+  lastUpdateAt,
+  nextRetryAt,
+  retryAttempt,
+  maxRetries,
+  onReconnect,
+  onDisconnect,
+}: ConnectionStatusProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  const isOpen = connectionState === "open"
+  // Connected but silent for longer than the watchdog window, as opposed to a book that is being resynced
+  const isQuiet = isOpen && isFeedStale
+  const isLive = isOpen && !isStale && !isFeedStale
+  const canDisconnect = connectionState !== "closed-by-user" && connectionState !== "idle"
+
+  // Only tick while there is a retry countdown or a silence duration to show
+  useEffect(() => {
+    if (connectionState !== "backing-off" && !isQuiet) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [connectionState, isQuiet])
+
+  let label = "Disconnected"
+  let Icon = WifiOff
+  let variant: "default" | "secondary" | "destructive" | "outline" = "destructive"
+  let title: string | undefined = "Click to reconnect now"
+
+  if (isQuiet) {
+    label = lastUpdateAt ? `Stale ${Math.max(0, Math.round((now - lastUpdateAt) / 1000))}s` : "Stale"
+    Icon = Hourglass
+    variant = "outline"
+    title = "No book update within the stale window; click to reconnect"
+  } else if (isOpen) {
+    label = isStale ? "Resyncing" : "Live"
+    Icon = Wifi
+    variant = isStale ? "secondary" : "default"
+    title = undefined
+  } else if (connectionState === "connecting") {
+    label = "Connecting"
+    Icon = Loader2
+    variant = "secondary"
+  } else if (connectionState === "backing-off") {
+    const seconds = Math.max(0, Math.ceil(((nextRetryAt ?? now) - now) / 1000))
+    label = `Retry ${retryAttempt}/${maxRetries} in ${seconds}s`
+  } else if (connectionState === "closed-by-user") {
+    label = "Paused"
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {canDisconnect && (
+        <button
+          onClick={onDisconnect}
+          title="Close the connection and stop reconnecting"
+          className="p-1.5 rounded-md text-slate-500 hover:text-slate-900 hover:bg-slate-100 dark:hover:text-white dark:hover:bg-slate-800 transition-colors"
+        >
+          <Power className="w-4 h-4" />
+        </button>
+      )}
+
+      <div className="relative">
+        <Badge
+          variant={variant}
+          title={title}
+          className={`flex items-center gap-2 transition-all duration-300 hover:scale-105 cursor-pointer ${
+            isQuiet ? "border-amber-400 bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-400" : ""
+          } ${isLive ? "animate-pulse" : ""}`}
+          onClick={() => (!isOpen || isQuiet) && onReconnect()}
+        >
+          <Icon className={`w-3 h-3 ${connectionState === "connecting" ? "animate-spin" : ""}`} />
+          {label}
+        </Badge>
+        {isLive && <div className="absolute -top-1 -right-1 w-3 h-3 bg-green-400 rounded-full animate-ping" />}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+"use client"
+
+import { memo, useMemo } from "react"
+import type { Venue } from "../types/orderbook"
+import type { ConsolidatedBook, ConsolidatedLevel } from "../lib/consolidatedBook"
+import type { RoutingResult } from "../lib/orderRouting"
+import { VENUE_COLORS } from "../lib/venueColors"
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceArea,
+  ReferenceLine,
+} from "recharts"
+
+const CHART_LEVELS = 100
+
+interface ConsolidatedDepthChartProps {
+  book: ConsolidatedBook
+  route: RoutingResult | null
+}
+
+type DepthPoint = { price: number } & Record<string, number>
+
+// Cumulative size per venue from the touch outwards, so the stacked areas add up to the consolidated depth
+function depthPoints(levels: ConsolidatedLevel[], venues: Venue[], side: "bid" | "ask") {
+  const totals: Partial<Record<Venue, number>> = {}
+  return levels.slice(0, CHART_LEVELS).map((level) => {
+    const point: DepthPoint = { price: level.price }
+    for (const venue of venues) {
+      totals[venue] = (totals[venue] ?? 0) + (level.venues[venue] ?? 0)
+      point[`${side}_${venue}`] = totals[venue]!
+    }
+    return point
+  })
+}
+
+function ConsolidatedDepthChart({ book, route }: ConsolidatedDepthChartProps) {
+  const data = useMemo(
+    () => [...depthPoints(book.bids, book.venues, "bid").reverse(), ...depthPoints(book.asks, book.venues, "ask")],
+    [book],
+  )
+
+  return (
+    <div className="h-72">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={data} margin={{ top: 20, right: 30, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" opacity={0.5} />
+          <XAxis
+            dataKey="price"
+            type="number"
+            scale="linear"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(value) => `$${Number(value).toFixed(0)}`}
+            stroke="#64748b"
+            fontSize={12}
+          />
+          <YAxis tickFormatter={(value) => Number(value).toFixed(2)} stroke="#64748b" fontSize={12} />
+          <Tooltip
+            labelFormatter={(value) => `$${Number(value).toFixed(2)}`}
+            formatter={(value, name) => [Number(value).toFixed(4), String(name).replace("_", " ")]}
+          />
+
+          {book.venues.map((venue) => (
+            <Area
+              key={`bid-${venue}`}
+              type="stepAfter"
+              dataKey={`bid_${venue}`}
+              stackId="bid"
+              stroke={VENUE_COLORS[venue]}
+              fill={VENUE_COLORS[venue]}
+              fillOpacity={0.35}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+          {book.venues.map((venue) => (
+            <Area
+              key={`ask-${venue}`}
+              type="stepBefore"
+              dataKey={`ask_${venue}`}
+              stackId="ask"
+              stroke={VENUE_COLORS[venue]}
+              fill={VENUE_COLORS[venue]}
+              fillOpacity={0.35}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+
+          {/* The price range the routed order sweeps, each venue's deepest fill and the blended price */}
+          {route && (
+            <ReferenceArea
+              x1={Math.min(route.bestPrice, route.worstPrice)}
+              x2={Math.max(route.bestPrice, route.worstPrice)}
+              fill="#f59e0b"
+              fillOpacity={0.15}
+              stroke="#f59e0b"
+              strokeOpacity={0.4}
+            />
+          )}
+          {route?.children.map((child) => (
+            <ReferenceLine
+              key={child.venue}
+              x={child.worstPrice}
+              stroke={VENUE_COLORS[child.venue]}
+              strokeDasharray="4 4"
+            />
+          ))}
+          {route && (
+            <ReferenceLine
+              x={route.averagePrice}
+              stroke="#f59e0b"
+              strokeWidth={2}
+              strokeDasharray="8 4"
+              label={{
+                value: `Blended $${route.averagePrice.toFixed(2)}`,
+                position: "top",
+                style: { fill: "#f59e0b", fontWeight: "bold", fontSize: "12px" },
+              }}
+            />
+          )}
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
+
+export default memo(ConsolidatedDepthChart)
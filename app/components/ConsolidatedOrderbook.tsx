@@ -0,0 +1,353 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { InstrumentSpec } from "../types/instrument"
+import type { Venue } from "../types/orderbook"
+import { useMultiVenueOrderbooks } from "../hooks/useMultiVenueOrderbooks"
+import { consolidateOrderbooks, type ConsolidatedLevel, type VenueBook } from "../lib/consolidatedBook"
+import type { OrderSide } from "../lib/execution"
+import type { FeeSelection } from "../lib/fees"
+import { routeOrder } from "../lib/orderRouting"
+import { groupPrice, resolveGroupingStep, type PriceGrouping } from "../lib/priceGrouping"
+import type { UpdateRate } from "../lib/updateScheduler"
+import { VENUE_COLORS } from "../lib/venueColors"
+import { VENUES } from "../venues"
+import ConsolidatedDepthChart from "./ConsolidatedDepthChart"
+import { Layers, AlertTriangle, Route } from "lucide-react"
+
+const DEFAULT_VENUES: Venue[] = ["OKX", "Bybit", "Deribit"]
+const ROWS_PER_SIDE = 20
+
+interface ConsolidatedOrderbookProps {
+  symbol: string
+  instruments: InstrumentSpec[]
+  priceGrouping: PriceGrouping
+  updateRate: UpdateRate
+  staleAfterMs: number
+  feeSelection: FeeSelection
+}
+
+interface ConsolidatedRowProps {
+  side: "bid" | "ask"
+  level: ConsolidatedLevel
+  maxQuantity: number
+  venues: Venue[]
+  // The level trades through the other side's best price on another venue
+  isCrossing: boolean
+}
+
+function ConsolidatedRow({ side, level, maxQuantity, venues, isCrossing }: ConsolidatedRowProps) {
+  return (
+    <div
+      className={`grid grid-cols-[7rem_6rem_1fr] items-center gap-4 px-3 py-1.5 rounded-md text-sm ${
+        isCrossing ? "bg-amber-100/80 dark:bg-amber-900/30 border border-amber-400" : ""
+      }`}
+    >
+      <div
+        className={`font-mono font-bold ${side === "bid" ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}
+      >
+        ${level.price.toFixed(2)}
+      </div>
+      <div className="font-mono text-right text-slate-700 dark:text-slate-300">{level.quantity.toFixed(4)}</div>
+      <div className="flex h-3 rounded-full overflow-hidden bg-slate-100 dark:bg-slate-800">
+        {venues.map((venue) =>
+          level.venues[venue] ? (
+            <div
+              key={venue}
+              title={`${venue}: ${level.venues[venue]!.toFixed(4)}`}
+              style={{ width: `${(level.venues[venue]! / maxQuantity) * 100}%`, backgroundColor: VENUE_COLORS[venue] }}
+            />
+          ) : null,
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Merges the selected venues' books for one symbol: stacked per-venue size at each price, the best bid and offer
+// across venues, and levels that cross or lock another venue's touch highlighted
+export default function ConsolidatedOrderbook({
+  symbol,
+  instruments,
+  priceGrouping,
+  updateRate,
+  staleAfterMs,
+  feeSelection,
+}: ConsolidatedOrderbookProps) {
+  const [selectedVenues, setSelectedVenues] = useState<Venue[]>(DEFAULT_VENUES)
+  const [routeSide, setRouteSide] = useState<OrderSide>("buy")
+  const [routeQuantity, setRouteQuantity] = useState("")
+  const { feeds, specs } = useMultiVenueOrderbooks(selectedVenues, symbol, instruments, { updateRate, staleAfterMs })
+
+  const toggleVenue = (venue: Venue) => {
+    setSelectedVenues((venues) =>
+      venues.includes(venue)
+        ? venues.filter((selected) => selected !== venue)
+        : VENUES.filter((candidate) => candidate === venue || venues.includes(candidate)),
+    )
+  }
+
+  const books = useMemo(
+    () =>
+      selectedVenues.flatMap((venue): VenueBook[] => {
+        const data = feeds[venue]?.orderbookData
+        return data ? [{ data, spec: specs.get(venue) ?? null }] : []
+      }),
+    [selectedVenues, feeds, specs],
+  )
+
+  // Grouping follows the coarsest tick among the venues, so every venue's levels can land on the same prices
+  const groupingStep = useMemo(() => {
+    const bestBid = Math.max(0, ...books.map((book) => book.data.bids[0]?.price ?? 0))
+    const bestAsk = Math.min(Infinity, ...books.map((book) => book.data.asks[0]?.price ?? Infinity))
+    const tickSize = Math.max(0, ...books.map((book) => book.spec?.tickSize ?? 0))
+    return Number.isFinite(bestAsk) ? resolveGroupingStep(priceGrouping, (bestBid + bestAsk) / 2, tickSize) : null
+  }, [books, priceGrouping])
+
+  const consolidated = useMemo(() => consolidateOrderbooks(symbol, books, groupingStep), [symbol, books, groupingStep])
+  const asks = consolidated.asks.slice(0, ROWS_PER_SIDE).reverse()
+  const bids = consolidated.bids.slice(0, ROWS_PER_SIDE)
+  const maxQuantity = Math.max(...asks.map((level) => level.quantity), ...bids.map((level) => level.quantity), 1)
+  const { bestBid, bestAsk, cross } = consolidated
+  // The raw best quotes in row terms: an ask row crosses when it holds asks at or below the best bid, a bid row when it
+  // holds bids at or above the best ask
+  const crossingAsk = cross !== "normal" && bestBid ? groupPrice(bestBid.price, groupingStep, "ask") : null
+  const crossingBid = cross !== "normal" && bestAsk ? groupPrice(bestAsk.price, groupingStep, "bid") : null
+
+  // Routing walks the venues' own levels rather than the grouped merge, so child prices are ones the venue quotes
+  const route = useMemo(
+    () => routeOrder(books, routeSide, Number.parseFloat(routeQuantity) || 0, feeSelection),
+    [books, routeSide, routeQuantity, feeSelection],
+  )
+
+  return (
+    <Card className="shadow-2xl border-0 bg-gradient-to-br from-white/80 to-slate-50/80 dark:from-slate-800/80 dark:to-slate-900/80 backdrop-blur-xl">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-blue-600" />
+          <span className="text-lg">Consolidated Orderbook</span>
+          <Badge variant="outline">{symbol}</Badge>
+          <div className="flex flex-wrap items-center gap-2 ml-auto">
+            {VENUES.map((venue) => {
+              const feed = feeds[venue]
+              const isSelected = selectedVenues.includes(venue)
+              return (
+                <Button
+                  key={venue}
+                  variant={isSelected ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => toggleVenue(venue)}
+                  title={feed?.error ?? feed?.connectionState}
+                  className="h-8 gap-2 text-xs font-normal"
+                >
+                  <span
+                    className={`w-2 h-2 rounded-full ${isSelected && feed?.connectionState !== "open" ? "animate-pulse" : ""}`}
+                    style={{ backgroundColor: isSelected ? VENUE_COLORS[venue] : "transparent" }}
+                  />
+                  {venue}
+                  {isSelected && feed?.error && <AlertTriangle className="w-3 h-3 text-amber-500" />}
+                </Button>
+              )
+            })}
+          </div>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent>
+        {books.length === 0 ? (
+          <div className="py-12 text-center text-slate-500 dark:text-slate-400">
+            {selectedVenues.length === 0 ? "Select venues to merge" : `Waiting for ${symbol} books...`}
+          </div>
+        ) : (
+          <div className="space-y-1">
+            {asks.map((level) => (
+              <ConsolidatedRow
+                key={`ask-${level.price}`}
+                side="ask"
+                level={level}
+                maxQuantity={maxQuantity}
+                venues={consolidated.venues}
+                isCrossing={crossingAsk !== null && level.price <= crossingAsk}
+              />
+            ))}
+
+            <div
+              className={`grid grid-cols-3 gap-4 my-2 px-3 py-3 rounded-lg text-sm border-y ${
+                cross === "normal"
+                  ? "border-slate-200 dark:border-slate-700"
+                  : "border-amber-400 bg-amber-50/80 dark:bg-amber-900/20"
+              }`}
+            >
+              <div>
+                <span className="block text-xs text-slate-500 dark:text-slate-400">Best bid</span>
+                <span className="font-mono font-bold text-green-600 dark:text-green-400">
+                  {bestBid ? `$${bestBid.price.toFixed(2)}` : "—"}
+                </span>
+                <span className="ml-2 text-xs text-slate-500">{bestBid?.venues.join(", ")}</span>
+              </div>
+              <div className="text-center">
+                {cross === "normal" ? (
+                  <>
+                    <span className="block text-xs text-slate-500 dark:text-slate-400">Spread</span>
+                    <span className="font-mono font-bold">
+                      {bestBid && bestAsk ? `$${(bestAsk.price - bestBid.price).toFixed(2)}` : "—"}
+                    </span>
+                  </>
+                ) : (
+                  <Badge variant="outline" className="border-amber-500 text-amber-700 dark:text-amber-400">
+                    <AlertTriangle className="w-3 h-3 mr-1" />
+                    {cross === "crossed" ? "Crossed" : "Locked"} across venues
+                  </Badge>
+                )}
+              </div>
+              <div className="text-right">
+                <span className="block text-xs text-slate-500 dark:text-slate-400">Best ask</span>
+                <span className="mr-2 text-xs text-slate-500">{bestAsk?.venues.join(", ")}</span>
+                <span className="font-mono font-bold text-red-600 dark:text-red-400">
+                  {bestAsk ? `$${bestAsk.price.toFixed(2)}` : "—"}
+                </span>
+              </div>
+            </div>
+
+            {bids.map((level) => (
+              <ConsolidatedRow
+                key={`bid-${level.price}`}
+                side="bid"
+                level={level}
+                maxQuantity={maxQuantity}
+                venues={consolidated.venues}
+                isCrossing={crossingBid !== null && level.price >= crossingBid}
+              />
+            ))}
+
+            <div className="flex flex-wrap items-center gap-4 pt-3 text-xs text-slate-500 dark:text-slate-400">
+              {consolidated.venues.map((venue) => (
+                <span key={venue} className="flex items-center gap-1">
+                  <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: VENUE_COLORS[venue] }} />
+                  {venue}
+                </span>
+              ))}
+              <span className="ml-auto">Sizes in base units</span>
+            </div>
+
+            <div className="pt-6 mt-4 border-t border-slate-200 dark:border-slate-700 space-y-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Route className="w-4 h-4 text-blue-600" />
+                <span className="font-medium">Smart order routing</span>
+                <Select value={routeSide} onValueChange={(value) => setRouteSide(value as OrderSide)}>
+                  <SelectTrigger className="w-24 h-8 ml-auto bg-white/80 dark:bg-slate-800/80">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="buy">Buy</SelectItem>
+                    <SelectItem value="sell">Sell</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="Quantity (base)"
+                  value={routeQuantity}
+                  onChange={(e) => setRouteQuantity(e.target.value)}
+                  className="w-40 h-8 bg-white/80 dark:bg-slate-800/80"
+                />
+              </div>
+
+              <ConsolidatedDepthChart book={consolidated} route={route} />
+
+              {route && (
+                <div className="space-y-3">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-xs uppercase tracking-wider text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                        <th className="py-2 pr-4 text-left">Child order</th>
+                        <th className="py-2 pr-4 text-right">Quantity</th>
+                        <th className="py-2 pr-4 text-right">Avg price</th>
+                        <th className="py-2 pr-4 text-right">Worst price</th>
+                        <th className="py-2 text-right">Taker fee</th>
+                      </tr>
+                    </thead>
+                    <tbody className="font-mono">
+                      {route.children.map((child) => (
+                        <tr key={child.venue} className="border-b border-slate-100 dark:border-slate-800">
+                          <td className="py-2 pr-4 font-sans font-medium">
+                            <span className="inline-flex items-center gap-2">
+                              <span
+                                className="w-2 h-2 rounded-full"
+                                style={{ backgroundColor: VENUE_COLORS[child.venue] }}
+                              />
+                              {child.venue}
+                            </span>
+                          </td>
+                          <td className="py-2 pr-4 text-right">
+                            {child.filledQuantity.toFixed(4)}{" "}
+                            <span className="text-xs text-slate-500">
+                              ({((child.filledQuantity / route.filledQuantity) * 100).toFixed(1)}%)
+                            </span>
+                          </td>
+                          <td className="py-2 pr-4 text-right">${child.averagePrice.toFixed(2)}</td>
+                          <td className="py-2 pr-4 text-right">${child.worstPrice.toFixed(2)}</td>
+                          <td className="py-2 text-right">
+                            ${child.fees.toFixed(2)}{" "}
+                            <span className="text-xs text-slate-500">({(child.feeRate * 100).toFixed(3)}%)</span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <span className="block text-xs text-slate-500 dark:text-slate-400">Blended price</span>
+                      <span className="font-mono font-bold">${route.averagePrice.toFixed(2)}</span>
+                    </div>
+                    <div>
+                      <span className="block text-xs text-slate-500 dark:text-slate-400">All-in price</span>
+                      <span className="font-mono font-bold">${route.allInPrice.toFixed(2)}</span>
+                      <span className="ml-2 text-xs text-slate-500">fees ${route.fees.toFixed(2)}</span>
+                    </div>
+                    <div>
+                      <span className="block text-xs text-slate-500 dark:text-slate-400">
+                        Best single venue{route.bestSingleVenue ? ` (${route.bestSingleVenue.venue})` : ""}
+                      </span>
+                      <span className="font-mono font-bold">
+                        {route.bestSingleVenue ? `$${route.bestSingleVenue.allInPrice.toFixed(2)}` : "—"}
+                      </span>
+                    </div>
+                    <div>
+                      <span className="block text-xs text-slate-500 dark:text-slate-400">Savings vs single venue</span>
+                      <span
+                        className={`font-mono font-bold ${route.savings >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}
+                      >
+                        ${route.savings.toFixed(2)}
+                      </span>
+                      <span className="ml-2 text-xs text-slate-500">{route.savingsBps.toFixed(2)} bps</span>
+                    </div>
+                  </div>
+
+                  {route.filledQuantity < route.quantity && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400">
+                      Only {route.filledQuantity.toFixed(4)} of {route.quantity} fills within the venues' loaded depth
+                    </p>
+                  )}
+                  {route.bestSingleVenue && route.comparableQuantity < route.filledQuantity && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {route.bestSingleVenue.venue} alone fills only {route.comparableQuantity.toFixed(4)} of{" "}
+                      {route.filledQuantity.toFixed(4)}; savings compare routing that size
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { useMemo } from "react"
+import { Badge } from "@/components/ui/badge"
+import type { SequenceGapEvent, Venue } from "../types/orderbook"
+import { AlertTriangle } from "lucide-react"
+
+interface FeedReliabilityProps {
+  venues: Venue[]
+  gapEvents: SequenceGapEvent[]
+}
+
+export default function FeedReliability({ venues, gapEvents }: FeedReliabilityProps) {
+  const stats = useMemo(
+    () =>
+      venues.map((venue) => {
+        const events = gapEvents.filter((event) => event.venue === venue)
+        const recovered = events.filter((event) => event.recoveredAt)
+        const averageRecovery =
+          recovered.length > 0
+            ? recovered.reduce((sum, event) => sum + (event.recoveredAt! - event.detectedAt), 0) / recovered.length
+            : null
+
+        return {
+          venue,
+          gaps: events.length,
+          open: events.length - recovered.length,
+          lastGap: events[events.length - 1]?.detectedAt ?? null,
+          averageRecovery,
+        }
+      }),
+    [venues, gapEvents],
+  )
+
+  if (gapEvents.length === 0) return null
+
+  return (
+    <div className="mt-4 p-3 bg-amber-50/60 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800 rounded-lg">
+      <div className="flex items-center gap-2 mb-2 text-sm font-bold text-amber-800 dark:text-amber-300">
+        <AlertTriangle className="w-4 h-4" />
+        Feed Reliability
+        <Badge variant="outline" className="text-xs">
+          {gapEvents.length} sequence {gapEvents.length === 1 ? "gap" : "gaps"} this session
+        </Badge>
+      </div>
+      <div className="grid grid-cols-4 gap-4 text-xs font-bold text-slate-600 dark:text-slate-400 uppercase tracking-wider">
+        <div>Venue</div>
+        <div className="text-right">Gaps</div>
+        <div className="text-right">Last Gap</div>
+        <div className="text-right">Avg Recovery</div>
+      </div>
+      {stats.map((stat) => (
+        <div key={stat.venue} className="grid grid-cols-4 gap-4 text-sm font-mono py-1">
+          <div className="font-sans font-medium">{stat.venue}</div>
+          <div className="text-right">
+            {stat.gaps}
+            {stat.open > 0 && <span className="text-amber-600"> ({stat.open} open)</span>}
+          </div>
+          <div className="text-right text-slate-600 dark:text-slate-300">
+            {stat.lastGap ? new Date(stat.lastGap).toLocaleTimeString() : "—"}
+          </div>
+          <div className="text-right text-slate-600 dark:text-slate-300">
+            {stat.averageRecovery !== null ? `${Math.round(stat.averageRecovery)}ms` : "—"}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
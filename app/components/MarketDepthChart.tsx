@@ -1,10 +1,11 @@
 "use client"
 
-import { useMemo, useState } from "react"
+import { memo, useEffect, useMemo, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import type { OrderbookData, SimulatedOrder } from "../types/orderbook"
+import type { OrderbookData, SimulatedOrder, TriggerOrder } from "../types/orderbook"
+import { TRIGGER_TYPE_LABELS } from "../lib/triggerOrders"
 import {
   AreaChart,
   Area,
@@ -14,16 +15,24 @@ import {
   Tooltip,
   ResponsiveContainer,
   ReferenceLine,
+  ReferenceArea,
   Brush,
 } from "recharts"
 import { BarChart3, TrendingUp, TrendingDown, Maximize2, Minimize2, RefreshCw, Settings } from "lucide-react"
 
+// The book can hold thousands of levels; beyond this many per side the curve only flattens the interesting part
+const CHART_LEVELS = 100
+
 interface MarketDepthChartProps {
   orderbookData: OrderbookData | null
   simulatedOrder: SimulatedOrder | null
+  // Armed trigger orders, drawn at their trigger price when it falls inside the charted depth
+  triggers: TriggerOrder[]
+  // Called after every commit, for the performance overlay
+  onRender?: () => void
 }
 
-export default function MarketDepthChart({ orderbookData, simulatedOrder }: MarketDepthChartProps) {
+function MarketDepthChart({ orderbookData, simulatedOrder, triggers, onRender }: MarketDepthChartProps) {
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [showBrush, setShowBrush] = useState(false)
   const [animationEnabled, setAnimationEnabled] = useState(true)
@@ -35,15 +44,16 @@ export default function MarketDepthChart({ orderbookData, simulatedOrder }: Mark
       return { depthData: [], bidVolume: 0, askVolume: 0, imbalance: 0.5, maxDepth: 0 }
     }
 
-    const chartData = []
+    // Both sides arrive sorted from the best price outwards, so the points only need putting in price order
+    const bids = orderbookData.bids.slice(0, CHART_LEVELS)
+    const asks = orderbookData.asks.slice(0, CHART_LEVELS)
+    const bidPoints = []
 
     // Process bids (buy side) - cumulative from highest to lowest price
     let cumulativeBidQuantity = 0
-    const sortedBids = [...orderbookData.bids].sort((a, b) => b.price - a.price)
-
-    for (const bid of sortedBids) {
+    for (const bid of bids) {
       cumulativeBidQuantity += bid.quantity
-      chartData.push({
+      bidPoints.push({
         price: bid.price,
         bidDepth: cumulativeBidQuantity,
         askDepth: 0,
@@ -51,12 +61,11 @@ export default function MarketDepthChart({ orderbookData, simulatedOrder }: Mark
         quantity: bid.quantity,
       })
     }
+    const chartData = bidPoints.reverse()
 
     // Process asks (sell side) - cumulative from lowest to highest price
     let cumulativeAskQuantity = 0
-    const sortedAsks = [...orderbookData.asks].sort((a, b) => a.price - b.price)
-
-    for (const ask of sortedAsks) {
+    for (const ask of asks) {
       cumulativeAskQuantity += ask.quantity
       chartData.push({
         price: ask.price,
@@ -67,11 +76,8 @@ export default function MarketDepthChart({ orderbookData, simulatedOrder }: Mark
       })
     }
 
-    // Sort all data by price for proper chart rendering
-    chartData.sort((a, b) => a.price - b.price)
-
-    const totalBidVol = orderbookData.bids.reduce((sum, bid) => sum + bid.quantity, 0)
-    const totalAskVol = orderbookData.asks.reduce((sum, ask) => sum + ask.quantity, 0)
+    const totalBidVol = bids.reduce((sum, bid) => sum + bid.quantity, 0)
+    const totalAskVol = asks.reduce((sum, ask) => sum + ask.quantity, 0)
     const imbalanceRatio = totalBidVol / (totalBidVol + totalAskVol)
     const maxDepthValue = Math.max(cumulativeBidQuantity, cumulativeAskQuantity)
 
@@ -84,6 +90,10 @@ export default function MarketDepthChart({ orderbookData, simulatedOrder }: Mark
     }
   }, [orderbookData])
 
+  useEffect(() => {
+    onRender?.()
+  })
+
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload
@@ -272,15 +282,35 @@ export default function MarketDepthChart({ orderbookData, simulatedOrder }: Mark
                 animationDuration={1000}
               />
 
+              {/* Levels the order's immediate part swept */}
+              {simulatedOrder?.immediateFill && (
+                <ReferenceArea
+                  x1={Math.min(simulatedOrder.immediateFill.bestPrice, simulatedOrder.immediateFill.worstPrice)}
+                  x2={Math.max(simulatedOrder.immediateFill.bestPrice, simulatedOrder.immediateFill.worstPrice)}
+                  fill="#3b82f6"
+                  fillOpacity={0.15}
+                  stroke="#3b82f6"
+                  strokeDasharray="4 4"
+                  label={{
+                    value: `Filled ${simulatedOrder.immediateFill.quantity.toFixed(4)}`,
+                    position: "insideTop",
+                    style: { fill: "#3b82f6", fontWeight: "bold", fontSize: "12px" },
+                  }}
+                />
+              )}
+
               {/* Reference line for simulated order price */}
-              {simulatedOrder && simulatedOrder.price && (
+              {simulatedOrder && simulatedOrder.price && simulatedOrder.restingQuantity !== 0 && (
                 <ReferenceLine
                   x={simulatedOrder.price}
                   stroke="#f59e0b"
                   strokeWidth={3}
                   strokeDasharray="8 4"
                   label={{
-                    value: `Order: $${simulatedOrder.price.toFixed(2)}`,
+                    value:
+                      simulatedOrder.restingQuantity === undefined
+                        ? `Order: $${simulatedOrder.price.toFixed(2)}`
+                        : `Resting ${simulatedOrder.restingQuantity.toFixed(4)}: $${simulatedOrder.price.toFixed(2)}`,
                     position: "top",
                     style: {
                       fill: "#f59e0b",
@@ -292,6 +322,21 @@ export default function MarketDepthChart({ orderbookData, simulatedOrder }: Mark
                 />
               )}
 
+              {triggers.map((trigger) => (
+                <ReferenceLine
+                  key={trigger.id}
+                  x={trigger.triggerPrice}
+                  stroke="#a855f7"
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  label={{
+                    value: `${TRIGGER_TYPE_LABELS[trigger.type]} ${trigger.side}: $${trigger.triggerPrice.toFixed(2)}`,
+                    position: "insideTop",
+                    style: { fill: "#a855f7", fontSize: "12px" },
+                  }}
+                />
+              ))}
+
               {/* Interactive brush for zooming */}
               {showBrush && <Brush dataKey="price" height={30} stroke="#8884d8" fill="rgba(136, 132, 216, 0.1)" />}
             </AreaChart>
@@ -413,3 +458,5 @@ export default function MarketDepthChart({ orderbookData, simulatedOrder }: Mark
     </Card>
   )
 }
+
+export default memo(MarketDepthChart)
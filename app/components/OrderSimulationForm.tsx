@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -8,7 +8,61 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
 import { Slider } from "@/components/ui/slider"
-import type { OrderbookData, SimulatedOrder, Venue, MarketImpactMetrics } from "../types/orderbook"
+import { Switch } from "@/components/ui/switch"
+import type {
+  CostAmount,
+  OrderbookData,
+  PriceTicker,
+  QueuePosition,
+  SimulatedOrder,
+  TimeInForce,
+  TriggerLogEntry,
+  TriggerOrder,
+  TriggerOrderType,
+  TriggerPriceSource,
+  Venue,
+  MarketImpactMetrics,
+  ParentOrderExecution,
+  ParentOrderParams,
+  ParentOrderStrategy,
+  VolumeCurve,
+} from "../types/orderbook"
+import type { InstrumentSpec } from "../types/instrument"
+import { bookLevelsFor, estimateMarketImpact, measureExecutionCost, type OrderSide } from "../lib/execution"
+import { VENUE_FEE_TIERS, feeOverrideKey, getFeeRates, getFeeTier, type FeeRates, type FeeSelection } from "../lib/fees"
+import { parseSymbol } from "../lib/instruments"
+import {
+  DEFAULT_ORDER_INSTRUCTIONS,
+  TIME_IN_FORCE_OPTIONS,
+  VENUE_ORDER_RULES,
+  checkOrderInstructions,
+  settleTimeInForce,
+  type OrderInstructions,
+} from "../lib/orderInstructions"
+import {
+  DEFAULT_PARENT_ORDER_PARAMS,
+  PARENT_ORDER_STRATEGIES,
+  STRATEGY_LABELS,
+  VOLUME_CURVES,
+  VOLUME_CURVE_LABELS,
+  advanceParentOrder,
+  parentOrderCost,
+  replayParentOrder,
+  startParentOrder,
+} from "../lib/parentOrder"
+import { advanceQueue, displayedSizeAt, joinQueue } from "../lib/queueModel"
+import {
+  TRIGGER_PRICE_SOURCES,
+  TRIGGER_TYPE_LABELS,
+  isTriggerOrderType,
+  isTriggered,
+  referencePrice,
+  validateTrigger,
+} from "../lib/triggerOrders"
+import OrderStatusNotice from "./OrderStatusNotice"
+import ParentOrderPanel from "./ParentOrderPanel"
+import SymbolPicker from "./SymbolPicker"
+import TriggerOrdersPanel from "./TriggerOrdersPanel"
 import {
   Calculator,
   Zap,
@@ -19,6 +73,10 @@ import {
   TrendingDown,
   Clock,
   DollarSign,
+  ShieldAlert,
+  Target,
+  Crosshair,
+  Layers,
 } from "lucide-react"
 
 interface OrderSimulationFormProps {
@@ -28,29 +86,230 @@ interface OrderSimulationFormProps {
   onOrderSimulation: (order: SimulatedOrder) => void
   onClearSimulation: () => void
   orderbookData: OrderbookData | null
+  // Last and mark prices for trigger orders
+  ticker: PriceTicker | null
+  instruments: InstrumentSpec[]
+  instrumentSpec: InstrumentSpec | null
+  isCatalogLoading?: boolean
+  feeSelection: FeeSelection
+  onFeeSelectionChange: (selection: FeeSelection) => void
+  // Armed trigger orders, for the ladder and depth chart to draw
+  onTriggersChange: (triggers: TriggerOrder[]) => void
 }
 
-const SYMBOLS = [
-  { value: "BTC-USDT", label: "Bitcoin", icon: "₿" },
-  { value: "ETH-USDT", label: "Ethereum", icon: "Ξ" },
-  { value: "BTC-USD", label: "Bitcoin USD", icon: "₿" },
-  { value: "ETH-USD", label: "Ethereum USD", icon: "Ξ" },
-  { value: "SOL-USDT", label: "Solana", icon: "◎" },
-  { value: "ADA-USDT", label: "Cardano", icon: "₳" },
-  { value: "DOT-USDT", label: "Polkadot", icon: "●" },
-  { value: "LINK-USDT", label: "Chainlink", icon: "⬢" },
-  { value: "AVAX-USDT", label: "Avalanche", icon: "▲" },
-  { value: "MATIC-USDT", label: "Polygon", icon: "⬟" },
-  { value: "UNI-USDT", label: "Uniswap", icon: "🦄" },
-  { value: "ATOM-USDT", label: "Cosmos", icon: "⚛" },
-]
-
 const TIMING_OPTIONS = [
   { value: "immediate", label: "Immediate", icon: "⚡", color: "text-red-600" },
   { value: "5s", label: "5 seconds", icon: "⏱️", color: "text-orange-600" },
   { value: "10s", label: "10 seconds", icon: "⏲️", color: "text-yellow-600" },
   { value: "30s", label: "30 seconds", icon: "⏰", color: "text-green-600" },
 ]
+const TIMING_DELAY_SECONDS = { immediate: 0, "5s": 5, "10s": 10, "30s": 30 }
+const TIME_IN_FORCE_LABELS: Record<TimeInForce, string> = {
+  GTC: "Good till cancelled",
+  IOC: "Immediate or cancel",
+  FOK: "Fill or kill",
+}
+// Trigger log entries kept, newest first
+const MAX_TRIGGER_LOG = 20
+// Books kept for replaying a parent order, one every REPLAY_SAMPLE_MS over the longest horizon, each cut to the depth
+// a child could plausibly sweep
+const REPLAY_SAMPLE_MS = 500
+const MAX_HORIZON_SECONDS = 300
+const REPLAY_DEPTH = 200
+const MAX_SLICES = 120
+// Used to reprice post-only orders when the venue's instrument rules have not loaded
+const DEFAULT_TICK_SIZE = 0.01
+
+const NO_FILL: MarketImpactMetrics = { estimatedFill: 0, marketImpact: 0, slippage: 0, averagePrice: 0, worstPrice: 0 }
+
+// Everything about an order that depends on the book it meets: the venue's checks, the part that fills on arrival
+// and what rests or is cancelled. Every key is set so a later evaluation replaces an earlier one completely.
+type OrderOutcome = Pick<
+  SimulatedOrder,
+  | "price"
+  | "rejectionReason"
+  | "cancelledQuantity"
+  | "cancelReasons"
+  | "repricedFrom"
+  | "immediateFill"
+  | "restingQuantity"
+>
+
+// What is sent to the book: the form's order, or a trigger order once it fires
+interface OrderParams {
+  side: OrderSide
+  type: "market" | "limit"
+  price?: number
+  quantity: number
+  instructions: OrderInstructions
+}
+
+interface OrderEvaluation {
+  metrics: MarketImpactMetrics
+  outcome: OrderOutcome
+}
+
+function formatFeeRate(rate: number) {
+  return `${(rate * 100).toFixed(4).replace(/0+$/, "").replace(/\.$/, "")}%`
+}
+
+function formatCost({ quote, bps }: CostAmount) {
+  return `${quote < 0 ? "-" : ""}$${Math.abs(quote).toFixed(2)} (${bps.toFixed(2)} bps)`
+}
+
+interface FeeOverrideInputsProps {
+  override: FeeRates | undefined
+  tierRates: FeeRates
+  onChange: (override: FeeRates | undefined) => void
+}
+
+// Maker and taker rates in percent for the current instrument; clearing both falls back to the tier
+function FeeOverrideInputs({ override, tierRates, onChange }: FeeOverrideInputsProps) {
+  const [maker, setMaker] = useState(override ? String(override.maker * 100) : "")
+  const [taker, setTaker] = useState(override ? String(override.taker * 100) : "")
+
+  const update = (nextMaker: string, nextTaker: string) => {
+    setMaker(nextMaker)
+    setTaker(nextTaker)
+    if (!nextMaker && !nextTaker) {
+      onChange(undefined)
+      return
+    }
+    const makerRate = Number.parseFloat(nextMaker)
+    const takerRate = Number.parseFloat(nextTaker)
+    onChange({
+      maker: Number.isFinite(makerRate) ? makerRate / 100 : tierRates.maker,
+      taker: Number.isFinite(takerRate) ? takerRate / 100 : tierRates.taker,
+    })
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <Input
+        type="number"
+        step="0.001"
+        value={maker}
+        onChange={(e) => update(e.target.value, taker)}
+        placeholder={`Maker ${formatFeeRate(tierRates.maker)}`}
+        className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm"
+      />
+      <Input
+        type="number"
+        step="0.001"
+        value={taker}
+        onChange={(e) => update(maker, e.target.value)}
+        placeholder={`Taker ${formatFeeRate(tierRates.taker)}`}
+        className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm"
+      />
+    </div>
+  )
+}
+
+interface DelayedExecutionPanelProps {
+  order: SimulatedOrder
+  now: number
+}
+
+// Countdown while a delayed order waits, then its decision-time estimate against the realized fill. Differences are
+// signed so that positive means the wait cost the order.
+function DelayedExecutionPanel({ order, now }: DelayedExecutionPanelProps) {
+  const delayMs = (order.timeToFill ?? 0) * 1000
+  const realized = order.realized
+
+  if (!realized) {
+    const remainingMs = Math.max(0, (order.executeAt ?? now) - now)
+    return (
+      <div className="p-4 bg-gradient-to-r from-blue-50 to-purple-50 dark:from-blue-900/20 dark:to-purple-900/20 rounded-xl backdrop-blur-sm">
+        <div className="flex items-center gap-2 text-sm font-bold text-slate-900 dark:text-white mb-2">
+          <Clock className="w-4 h-4 text-blue-600 animate-pulse" />
+          Executing in {Math.ceil(remainingMs / 1000)}s against the live book
+        </div>
+        <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 overflow-hidden">
+          <div
+            className="h-full rounded-full bg-gradient-to-r from-blue-500 to-purple-500"
+            style={{ width: `${delayMs > 0 ? (1 - remainingMs / delayMs) * 100 : 100}%` }}
+          />
+        </div>
+      </div>
+    )
+  }
+
+  const direction = order.side === "buy" ? 1 : -1
+  const rows: [label: string, estimate: string, actual: string, difference: number | null, unit: string][] = [
+    [
+      "Fill",
+      `${order.estimatedFill.toFixed(1)}%`,
+      `${realized.estimatedFill.toFixed(1)}%`,
+      order.estimatedFill - realized.estimatedFill,
+      "%",
+    ],
+    [
+      "Avg price",
+      `$${(order.averagePrice ?? 0).toFixed(2)}`,
+      `$${realized.averagePrice.toFixed(2)}`,
+      order.averagePrice ? direction * (realized.averagePrice - order.averagePrice) : null,
+      "$",
+    ],
+    [
+      "Best price",
+      order.cost ? `$${order.cost.bestPrice.toFixed(2)}` : "—",
+      realized.cost ? `$${realized.cost.bestPrice.toFixed(2)}` : "—",
+      order.cost && realized.cost ? direction * (realized.cost.bestPrice - order.cost.bestPrice) : null,
+      "$",
+    ],
+    [
+      "Shortfall",
+      order.cost ? `${order.cost.implementationShortfall.bps.toFixed(2)} bps` : "—",
+      realized.cost ? `${realized.cost.implementationShortfall.bps.toFixed(2)} bps` : "—",
+      order.cost && realized.cost
+        ? realized.cost.implementationShortfall.bps - order.cost.implementationShortfall.bps
+        : null,
+      " bps",
+    ],
+  ]
+
+  return (
+    <div className="p-4 bg-gradient-to-r from-slate-50/80 to-slate-100/80 dark:from-slate-800/50 dark:to-slate-700/50 rounded-xl backdrop-blur-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h5 className="font-bold text-slate-900 dark:text-white">Delayed Execution</h5>
+        <Badge variant="outline" className="text-xs">
+          after {order.timeToFill}s
+        </Badge>
+      </div>
+      <div className="grid grid-cols-4 gap-2 text-sm">
+        <span className="text-xs text-slate-500 dark:text-slate-400" />
+        <span className="text-xs text-right text-slate-500 dark:text-slate-400">Estimate</span>
+        <span className="text-xs text-right text-slate-500 dark:text-slate-400">Realized</span>
+        <span className="text-xs text-right text-slate-500 dark:text-slate-400">Cost of wait</span>
+        {rows.map(([label, estimate, actual, difference, unit]) => (
+          <div key={label} className="contents">
+            <span className="text-slate-600 dark:text-slate-400">{label}</span>
+            <span className="font-mono text-right">{estimate}</span>
+            <span className="font-mono text-right">{actual}</span>
+            <span
+              className={`font-mono text-right ${
+                difference === null || Math.abs(difference) < 1e-9
+                  ? "text-slate-500"
+                  : difference > 0
+                    ? "text-red-600"
+                    : "text-green-600"
+              }`}
+            >
+              {difference === null
+                ? "—"
+                : unit === "$"
+                  ? `${difference > 0 ? "+" : difference < 0 ? "-" : ""}$${Math.abs(difference).toFixed(2)}`
+                  : `${difference > 0 ? "+" : ""}${difference.toFixed(2)}${unit}`}
+            </span>
+          </div>
+        ))}
+      </div>
+      <p className="mt-3 text-xs text-slate-500 dark:text-slate-400">
+        Both measured against the decision-time mid{order.cost ? ` $${order.cost.midPrice.toFixed(2)}` : ""}
+      </p>
+    </div>
+  )
+}
 
 export default function OrderSimulationForm({
   venue,
@@ -59,8 +318,15 @@ export default function OrderSimulationForm({
   onOrderSimulation,
   onClearSimulation,
   orderbookData,
+  ticker,
+  instruments,
+  instrumentSpec,
+  isCatalogLoading,
+  feeSelection,
+  onFeeSelectionChange,
+  onTriggersChange,
 }: OrderSimulationFormProps) {
-  const [orderType, setOrderType] = useState<"market" | "limit">("limit")
+  const [orderType, setOrderType] = useState<"market" | "limit" | TriggerOrderType>("limit")
   const [side, setSide] = useState<"buy" | "sell">("buy")
   const [price, setPrice] = useState("")
   const [quantity, setQuantity] = useState("")
@@ -68,86 +334,459 @@ export default function OrderSimulationForm({
   const [sliderQuantity, setSliderQuantity] = useState([0])
   const [isAnimating, setIsAnimating] = useState(false)
   const [showAdvanced, setShowAdvanced] = useState(false)
+  const [instructions, setInstructions] = useState<OrderInstructions>(DEFAULT_ORDER_INSTRUCTIONS)
+  // Signed open position a reduce-only order is checked against, long positive
+  const [position, setPosition] = useState("")
+  // The last delayed order, waiting to execute or with its realized fill
+  const [delayedOrder, setDelayedOrder] = useState<SimulatedOrder | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  const executionTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  // The timer executes against whatever book is current when it fires, not the one it was scheduled with
+  const latestBookRef = useRef(orderbookData)
+  // A passive limit's place in the queue at its price, and the order it belongs to
+  const [queuePosition, setQueuePosition] = useState<QueuePosition | null>(null)
+  const queuedOrderRef = useRef<SimulatedOrder | null>(null)
+  const [triggerPrice, setTriggerPrice] = useState("")
+  const [priceSource, setPriceSource] = useState<TriggerPriceSource>("last")
+  const [triggers, setTriggers] = useState<TriggerOrder[]>([])
+  const [triggerLog, setTriggerLog] = useState<TriggerLogEntry[]>([])
+  const [triggerError, setTriggerError] = useState<string | null>(null)
+  const nextTriggerIdRef = useRef(1)
+  const isTrigger = isTriggerOrderType(orderType)
+  const hasLimitPrice = orderType === "limit" || orderType === "stop-limit"
+  const [algorithm, setAlgorithm] = useState<ParentOrderStrategy | "none">("none")
+  const [parentInputs, setParentInputs] = useState({
+    horizonSeconds: String(DEFAULT_PARENT_ORDER_PARAMS.horizonSeconds),
+    slices: String(DEFAULT_PARENT_ORDER_PARAMS.slices),
+    participationPercent: String(DEFAULT_PARENT_ORDER_PARAMS.participationRate * 100),
+  })
+  const [curve, setCurve] = useState<VolumeCurve>(DEFAULT_PARENT_ORDER_PARAMS.curve)
+  const [parentSource, setParentSource] = useState<ParentOrderParams["source"]>(DEFAULT_PARENT_ORDER_PARAMS.source)
+  const [parentExecution, setParentExecution] = useState<ParentOrderExecution | null>(null)
+  const [parentError, setParentError] = useState<string | null>(null)
+  const bookHistoryRef = useRef<{ time: number; book: OrderbookData }[]>([])
+  const previousBookRef = useRef<OrderbookData | null>(null)
+  const isAlgorithm = !isTrigger && algorithm !== "none"
+  const isFormValid = Boolean(quantity && (!hasLimitPrice || price) && (!isTrigger || triggerPrice))
+
+  useEffect(() => {
+    latestBookRef.current = orderbookData
+  }, [orderbookData])
+
+  // Recent books, for replaying a parent order over the last horizon
+  useEffect(() => {
+    if (!orderbookData) return
+    const time = Date.now()
+    const history = bookHistoryRef.current
+    if (history.length > 0 && time - history[history.length - 1].time < REPLAY_SAMPLE_MS) return
+    history.push({
+      time,
+      book: {
+        ...orderbookData,
+        bids: orderbookData.bids.slice(0, REPLAY_DEPTH),
+        asks: orderbookData.asks.slice(0, REPLAY_DEPTH),
+      },
+    })
+    while (history[0].time < time - (MAX_HORIZON_SECONDS + 1) * 1000) history.shift()
+  }, [orderbookData])
+
+  // Delayed and trigger orders belong to the venue and symbol they were placed on
+  useEffect(() => {
+    setDelayedOrder(null)
+    setQueuePosition(null)
+    setTriggers([])
+    setTriggerError(null)
+    setParentExecution(null)
+    setParentError(null)
+    bookHistoryRef.current = []
+    previousBookRef.current = null
+    queuedOrderRef.current = null
+    return () => clearTimeout(executionTimerRef.current)
+  }, [venue, symbol])
+
+  // Every book update moves the resting order through its queue
+  useEffect(() => {
+    if (!orderbookData) return
+    setQueuePosition((position) => (position ? advanceQueue(position, orderbookData, Date.now()) : position))
+  }, [orderbookData])
+
+  // Queue progress is posted to the page's current handler; the order and book it belongs to are read through refs so
+  // that the effect only follows the queue
+  const onOrderSimulationRef = useRef(onOrderSimulation)
+  onOrderSimulationRef.current = onOrderSimulation
+  useEffect(() => {
+    const order = queuedOrderRef.current
+    if (!order || !queuePosition) return
+    onOrderSimulationRef.current({
+      ...order,
+      estimatedFill: (((order.immediateFill?.quantity ?? 0) + queuePosition.filledQuantity) / order.quantity) * 100,
+      queue: queuePosition,
+    })
+  }, [queuePosition])
+
+  const isWaiting = delayedOrder !== null && !delayedOrder.realized
+  const isWorking = parentExecution !== null && parentExecution.completedAt === undefined
+  useEffect(() => {
+    if (!isWaiting && !isWorking) return
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [isWaiting, isWorking])
+
+  // A live parent order moves on with every book update, and with the clock so children still go out when the book
+  // is quiet
+  useEffect(() => {
+    if (!orderbookData) return
+    const previous = previousBookRef.current
+    previousBookRef.current = orderbookData
+    setParentExecution((execution) =>
+      execution && execution.params.source === "live"
+        ? advanceParentOrder(execution, previous, orderbookData, Date.now())
+        : execution,
+    )
+  }, [orderbookData, now])
 
-  // Auto-update price when switching sides
+  // Start the limit price at the touch when the side, type or book changes, but not on every update, so a passive
+  // price stays where it was typed
+  const hasOrderbook = orderbookData !== null
   useEffect(() => {
-    if (orderType === "limit" && orderbookData) {
+    if (hasLimitPrice && hasOrderbook) {
       const bestPrice = getBestPrice()
       if (bestPrice) {
         setPrice(bestPrice)
       }
     }
-  }, [side, orderbookData, orderType])
-
-  const calculateMarketImpact = (): MarketImpactMetrics => {
-    if (!orderbookData || !quantity) {
-      return {
-        estimatedFill: 0,
-        marketImpact: 0,
-        slippage: 0,
-        averagePrice: 0,
-        worstPrice: 0,
+  }, [side, orderType, venue, symbol, hasOrderbook])
+
+  const instrument = instrumentSpec?.instrument ?? parseSymbol(symbol)
+  const feeRates = getFeeRates(venue, instrument, feeSelection, symbol)
+  const tierIndex = feeSelection.tiers[venue] ?? 0
+  const overrideKey = feeOverrideKey(venue, symbol)
+  const feeOverride = feeSelection.overrides[overrideKey]
+
+  const venueRules = VENUE_ORDER_RULES[venue]
+
+  const formOrder = (): OrderParams => ({
+    side,
+    type: orderType === "market" ? "market" : "limit",
+    price: orderType === "limit" ? Number.parseFloat(price) : undefined,
+    quantity: Number.parseFloat(quantity),
+    instructions,
+  })
+
+  // Runs the order past the venue's checks, then sweeps the other side up to the limit. The venue may reject it, trim
+  // it, move a post-only price off the touch or cancel what did not fill; a GTC limit rests the remainder.
+  const evaluateOrder = (order: OrderParams, book = orderbookData, arrivalPrice?: number): OrderEvaluation => {
+    const { side, type, quantity: orderQuantity, instructions } = order
+    const enteredPrice = order.price
+    const withoutFill = (rejectionReason?: string): OrderEvaluation => ({
+      metrics: NO_FILL,
+      outcome: {
+        price: enteredPrice,
+        rejectionReason,
+        cancelledQuantity: undefined,
+        cancelReasons: undefined,
+        repricedFrom: undefined,
+        immediateFill: undefined,
+        restingQuantity: rejectionReason ? 0 : undefined,
+      },
+    })
+    if (!book || !(orderQuantity > 0)) return withoutFill()
+
+    const check = checkOrderInstructions({
+      book,
+      venue,
+      instrument,
+      side,
+      type,
+      price: enteredPrice,
+      quantity: orderQuantity,
+      instructions,
+      position: Number.parseFloat(position) || 0,
+      tickSize: instrumentSpec?.tickSize ?? DEFAULT_TICK_SIZE,
+    })
+    if (check.rejectionReason) return withoutFill(check.rejectionReason)
+
+    const limitPrice = check.price
+    const sweep = estimateMarketImpact(book, side, check.quantity, limitPrice)
+    const filledQuantity = (check.quantity * sweep.estimatedFill) / 100
+    const settled = settleTimeInForce(type, instructions.timeInForce, check.quantity, filledQuantity, limitPrice)
+    if (settled.rejectionReason) return withoutFill(settled.rejectionReason)
+
+    const restingQuantity =
+      type === "limit" ? Math.max(0, check.quantity - filledQuantity - settled.cancelledQuantity) : 0
+    // A limit that takes nothing on arrival is costed at its own price and the maker rate
+    const isResting = limitPrice !== undefined && filledQuantity === 0 && restingQuantity > 0
+    const cost =
+      isResting || filledQuantity > 0
+        ? measureExecutionCost({
+            orderbookData: book,
+            side,
+            filledQuantity: isResting ? restingQuantity : filledQuantity,
+            averagePrice: isResting ? limitPrice : sweep.averagePrice,
+            liquidity: isResting ? "maker" : "taker",
+            fees: feeRates,
+            spec: instrumentSpec,
+            arrivalPrice,
+          })
+        : null
+    const metrics = { ...sweep, estimatedFill: (filledQuantity / orderQuantity) * 100 }
+    const touch = bookLevelsFor(book, side)[0]?.price
+
+    return {
+      metrics: cost ? { ...metrics, cost } : metrics,
+      outcome: {
+        price: limitPrice,
+        rejectionReason: undefined,
+        cancelledQuantity: check.cancelledQuantity + settled.cancelledQuantity,
+        cancelReasons: settled.cancelReason ? [...check.cancelReasons, settled.cancelReason] : check.cancelReasons,
+        repricedFrom: check.repricedFrom,
+        immediateFill:
+          type === "limit" && filledQuantity > 0 && touch !== undefined
+            ? {
+                quantity: filledQuantity,
+                averagePrice: sweep.averagePrice,
+                bestPrice: touch,
+                worstPrice: sweep.worstPrice,
+              }
+            : undefined,
+        restingQuantity: type === "limit" ? restingQuantity : undefined,
+      },
+    }
+  }
+
+  const setTimeInForce = (timeInForce: TimeInForce) => {
+    setInstructions({ ...instructions, timeInForce, postOnly: timeInForce === "GTC" && instructions.postOnly })
+  }
+
+  const setFeeTier = (tier: number) => {
+    onFeeSelectionChange({ ...feeSelection, tiers: { ...feeSelection.tiers, [venue]: tier } })
+  }
+
+  const setFeeOverride = (override: FeeRates | undefined) => {
+    const { [overrideKey]: _previous, ...overrides } = feeSelection.overrides
+    onFeeSelectionChange({
+      ...feeSelection,
+      overrides: override ? { ...overrides, [overrideKey]: override } : overrides,
+    })
+  }
+
+  const toSimulatedOrder = (
+    order: OrderParams,
+    { metrics, outcome }: OrderEvaluation,
+    delaySeconds: number,
+  ): SimulatedOrder => ({
+    venue,
+    symbol,
+    side: order.side,
+    type: order.type,
+    quantity: order.quantity,
+    timing,
+    timeInForce: order.type === "limit" ? order.instructions.timeInForce : undefined,
+    postOnly: order.type === "limit" && order.instructions.postOnly,
+    reduceOnly: order.instructions.reduceOnly,
+    estimatedFill: metrics.estimatedFill,
+    marketImpact: metrics.marketImpact,
+    slippage: metrics.slippage,
+    timeToFill: delaySeconds,
+    averagePrice: metrics.averagePrice,
+    cost: metrics.cost,
+    ...outcome,
+  })
+
+  // The resting remainder queues at the limit price; the live book still shows the liquidity the immediate part
+  // took, which the queue model sets aside
+  const joinQueueIfResting = (order: SimulatedOrder, book: OrderbookData | null) => {
+    const restingQuantity = order.restingQuantity ?? 0
+    queuedOrderRef.current = book && order.price !== undefined && restingQuantity > 0 ? order : null
+    setQueuePosition(
+      queuedOrderRef.current && book && order.price !== undefined
+        ? joinQueue(book, order.side, order.price, restingQuantity, Date.now())
+        : null,
+    )
+  }
+
+  // The trigger effect reruns on market data and the armed list only, and a delayed order fires from a timer; both read
+  // order evaluation, which also depends on the fee, instrument and position settings, and the queue from the latest
+  // render
+  const triggerContext = { evaluateOrder, toSimulatedOrder, joinQueueIfResting, onOrderSimulation, queuePosition }
+  const triggerContextRef = useRef(triggerContext)
+  triggerContextRef.current = triggerContext
+
+  // Armed triggers are checked on every book and ticker update, and when one is armed. One that fires is sent to the
+  // book as it stands, through the same checks and sweep as an order placed by hand, and moves from the armed list to
+  // the log.
+  useEffect(() => {
+    if (!orderbookData || triggers.length === 0) return
+    const { evaluateOrder, toSimulatedOrder, joinQueueIfResting, onOrderSimulation, queuePosition } =
+      triggerContextRef.current
+    const fired: TriggerLogEntry[] = []
+    for (const trigger of triggers) {
+      const price = referencePrice(trigger.priceSource, orderbookData, ticker)
+      if (price === null || !isTriggered(trigger, price)) continue
+      const order: OrderParams = {
+        side: trigger.side,
+        type: trigger.type === "stop-limit" ? "limit" : "market",
+        price: trigger.limitPrice,
+        quantity: trigger.quantity,
+        instructions: DEFAULT_ORDER_INSTRUCTIONS,
       }
+      fired.push({
+        trigger,
+        triggeredAt: Date.now(),
+        referencePrice: price,
+        order: toSimulatedOrder(order, evaluateOrder(order, orderbookData), 0),
+      })
     }
+    if (fired.length === 0) return
 
-    const orderQuantity = Number.parseFloat(quantity)
-    const levels = side === "buy" ? orderbookData.asks : orderbookData.bids
+    setTriggers((current) => current.filter((trigger) => !fired.some((entry) => entry.trigger.id === trigger.id)))
+    setTriggerLog((log) => [...fired.reverse(), ...log].slice(0, MAX_TRIGGER_LOG))
+    // The queue model follows one resting order at a time, so a limit already waiting in it keeps its place and the
+    // ladder; the fired order's result is in the trigger log either way
+    if (queuedOrderRef.current && queuePosition && queuePosition.filledQuantity < queuePosition.quantity) return
+    const latest = fired[0].order
+    joinQueueIfResting(latest, orderbookData)
+    onOrderSimulation(latest)
+  }, [orderbookData, ticker, triggers])
+
+  useEffect(() => {
+    onTriggersChange(triggers)
+  }, [triggers])
 
-    let remainingQuantity = orderQuantity
-    let totalCost = 0
-    let totalQuantityFilled = 0
-    let worstPrice = 0
+  const armTrigger = (type: TriggerOrderType) => {
+    const trigger: TriggerOrder = {
+      id: nextTriggerIdRef.current,
+      venue,
+      symbol,
+      type,
+      side,
+      quantity: Number.parseFloat(quantity),
+      triggerPrice: Number.parseFloat(triggerPrice),
+      limitPrice: type === "stop-limit" ? Number.parseFloat(price) : undefined,
+      priceSource,
+      armedAt: Date.now(),
+    }
+    const error = validateTrigger(trigger, referencePrice(priceSource, orderbookData, ticker))
+    setTriggerError(error)
+    if (error) return
+    nextTriggerIdRef.current += 1
+    setTriggers((current) => [...current, trigger])
+  }
 
-    for (const level of levels) {
-      if (remainingQuantity <= 0) break
+  const parentParamsError = (params: ParentOrderParams) => {
+    if (!(params.horizonSeconds > 0) || params.horizonSeconds > MAX_HORIZON_SECONDS) {
+      return `Horizon must be between 1 and ${MAX_HORIZON_SECONDS} seconds`
+    }
+    if (!Number.isInteger(params.slices) || params.slices < 1 || params.slices > MAX_SLICES) {
+      return `Use between 1 and ${MAX_SLICES} child orders`
+    }
+    if (params.strategy === "pov" && !(params.participationRate > 0 && params.participationRate < 1)) {
+      return "Participation must be above 0% and below 100%"
+    }
+    return null
+  }
 
-      const quantityAtLevel = Math.min(remainingQuantity, level.quantity)
-      totalCost += quantityAtLevel * level.price
-      totalQuantityFilled += quantityAtLevel
-      remainingQuantity -= quantityAtLevel
-      worstPrice = level.price
+  // The parent is benchmarked against sweeping all of it on arrival, so its estimate is taken as an IOC
+  const startAlgorithm = (strategy: ParentOrderStrategy) => {
+    if (!orderbookData) return
+    const params: ParentOrderParams = {
+      strategy,
+      horizonSeconds: Number.parseFloat(parentInputs.horizonSeconds),
+      slices: Number.parseInt(parentInputs.slices, 10),
+      participationRate: Number.parseFloat(parentInputs.participationPercent) / 100,
+      curve,
+      source: parentSource,
     }
+    const error = parentParamsError(params)
+    setParentError(error)
+    if (error) return
 
-    const estimatedFill = (totalQuantityFilled / orderQuantity) * 100
-    const averagePrice = totalQuantityFilled > 0 ? totalCost / totalQuantityFilled : 0
-    const bestPrice = levels[0]?.price || 0
-    const slippage = bestPrice > 0 ? Math.abs((averagePrice - bestPrice) / bestPrice) * 100 : 0
-    const marketImpact =
-      levels.length > 0 ? (totalQuantityFilled / levels.reduce((sum, level) => sum + level.quantity, 0)) * 100 : 0
+    const order: OrderParams = { ...formOrder(), instructions: { ...DEFAULT_ORDER_INSTRUCTIONS, timeInForce: "IOC" } }
+    const parent = toSimulatedOrder(order, evaluateOrder(order), 0)
+    const startedAt = Date.now()
+    if (params.source === "live") {
+      const started = startParentOrder(parent, params, orderbookData, startedAt)
+      setParentExecution(started && advanceParentOrder(started, null, orderbookData, startedAt))
+      return
+    }
 
-    return {
-      estimatedFill,
-      marketImpact,
-      slippage,
-      averagePrice,
-      worstPrice,
+    // Replay starts from the last book recorded at or before the start of the horizon
+    const history = bookHistoryRef.current
+    const from = startedAt - params.horizonSeconds * 1000
+    let first = -1
+    history.forEach((entry, index) => {
+      if (entry.time <= from) first = index
+    })
+    if (first === -1) {
+      const recorded = history.length > 0 ? (startedAt - history[0].time) / 1000 : 0
+      setParentError(`Only ${recorded.toFixed(0)}s of the book is recorded; replay needs ${params.horizonSeconds}s`)
+      return
     }
+    setParentExecution(replayParentOrder(parent, params, history.slice(first)))
   }
 
   const handleSimulate = () => {
-    if (!quantity || (orderType === "limit" && !price)) return
+    if (!isFormValid) return
 
     setIsAnimating(true)
     setTimeout(() => setIsAnimating(false), 1000)
 
-    const metrics = calculateMarketImpact()
-    const timingMap = { immediate: 0, "5s": 5, "10s": 10, "30s": 30 }
+    if (isTriggerOrderType(orderType)) {
+      armTrigger(orderType)
+      return
+    }
+    if (algorithm !== "none") {
+      startAlgorithm(algorithm)
+      return
+    }
 
-    const simulatedOrder: SimulatedOrder = {
-      venue,
-      symbol,
-      side,
-      type: orderType,
-      price: orderType === "limit" ? Number.parseFloat(price) : undefined,
-      quantity: Number.parseFloat(quantity),
-      timing,
-      estimatedFill: metrics.estimatedFill,
-      marketImpact: metrics.marketImpact,
-      slippage: metrics.slippage,
-      timeToFill: timingMap[timing],
+    // The order is evaluated and joins its queue against the same book, the latest one received
+    const decisionBook = latestBookRef.current
+    const order = formOrder()
+    const evaluation = evaluateOrder(order, decisionBook)
+    const delaySeconds = TIMING_DELAY_SECONDS[timing]
+    const simulatedOrder = toSimulatedOrder(order, evaluation, delaySeconds)
+
+    clearTimeout(executionTimerRef.current)
+    if (delaySeconds === 0) {
+      setDelayedOrder(null)
+      joinQueueIfResting(simulatedOrder, decisionBook)
+      onOrderSimulation(simulatedOrder)
+      return
     }
 
-    onOrderSimulation(simulatedOrder)
+    // Delayed orders wait on the live feed and then execute against the book as it is at that moment, still
+    // measured against the mid at decision time so the drift over the wait shows up as cost
+    const pendingOrder = { ...simulatedOrder, executeAt: Date.now() + delaySeconds * 1000 }
+    setNow(Date.now())
+    setDelayedOrder(pendingOrder)
+    joinQueueIfResting(pendingOrder, null)
+    onOrderSimulation(pendingOrder)
+    executionTimerRef.current = setTimeout(() => {
+      const { evaluateOrder, joinQueueIfResting, onOrderSimulation } = triggerContextRef.current
+      const book = latestBookRef.current
+      const realized = evaluateOrder(order, book, evaluation.metrics.cost?.midPrice)
+      const executedOrder = {
+        ...pendingOrder,
+        ...realized.outcome,
+        realized: { ...realized.metrics, executedAt: Date.now() },
+      }
+      setDelayedOrder(executedOrder)
+      joinQueueIfResting(executedOrder, book)
+      onOrderSimulation(executedOrder)
+    }, delaySeconds * 1000)
+  }
+
+  const handleClear = () => {
+    clearTimeout(executionTimerRef.current)
+    setDelayedOrder(null)
+    setQueuePosition(null)
+    setTriggers([])
+    setTriggerError(null)
+    setParentExecution(null)
+    setParentError(null)
+    queuedOrderRef.current = null
+    onClearSimulation()
   }
 
   const getBestPrice = () => {
@@ -167,8 +806,12 @@ export default function OrderSimulationForm({
     setQuantity(((value[0] / 100) * getMaxQuantity()).toFixed(4))
   }
 
-  const isFormValid = quantity && (orderType === "market" || price)
-  const metrics = calculateMarketImpact()
+  const { metrics, outcome } = evaluateOrder(formOrder())
+  const quantityValue = Number.parseFloat(quantity)
+  const previewPrice = outcome.price ?? 0
+  const isRejectedPreview = outcome.rejectionReason !== undefined
+  // A limit that takes nothing on arrival and rests behind the queue at its price
+  const isRestingPreview = !outcome.immediateFill && (outcome.restingQuantity ?? 0) > 0
 
   return (
     <Card className="shadow-2xl border-0 bg-gradient-to-br from-white/80 to-slate-50/80 dark:from-slate-800/80 dark:to-slate-900/80 backdrop-blur-xl hover:shadow-3xl transition-all duration-500">
@@ -194,24 +837,13 @@ export default function OrderSimulationForm({
             <DollarSign className="w-4 h-4" />
             Trading Pair
           </Label>
-          <Select value={symbol} onValueChange={onSymbolChange}>
-            <SelectTrigger className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm hover:bg-white dark:hover:bg-slate-800 transition-all duration-200 hover:scale-105">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent className="bg-white/95 dark:bg-slate-800/95 backdrop-blur-xl">
-              {SYMBOLS.map((sym) => (
-                <SelectItem key={sym.value} value={sym.value}>
-                  <div className="flex items-center gap-3 py-1">
-                    <span className="text-lg">{sym.icon}</span>
-                    <div>
-                      <div className="font-mono font-bold">{sym.value}</div>
-                      <div className="text-xs text-slate-500">{sym.label}</div>
-                    </div>
-                  </div>
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <SymbolPicker
+            venue={venue}
+            symbol={symbol}
+            onSymbolChange={onSymbolChange}
+            instruments={instruments}
+            isLoading={isCatalogLoading}
+          />
         </div>
 
         {/* Interactive Order Configuration */}
@@ -220,7 +852,13 @@ export default function OrderSimulationForm({
             <Label htmlFor="orderType" className="text-sm font-bold">
               Order Type
             </Label>
-            <Select value={orderType} onValueChange={(value: "market" | "limit") => setOrderType(value)}>
+            <Select
+              value={orderType}
+              onValueChange={(value: "market" | "limit" | TriggerOrderType) => {
+                setOrderType(value)
+                setTriggerError(null)
+              }}
+            >
               <SelectTrigger className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm hover:scale-105 transition-all duration-200">
                 <SelectValue />
               </SelectTrigger>
@@ -243,6 +881,28 @@ export default function OrderSimulationForm({
                     </div>
                   </div>
                 </SelectItem>
+                {(["stop-market", "stop-limit"] as const).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    <div className="flex items-center gap-3 py-1">
+                      <ShieldAlert className="w-4 h-4 text-purple-500" />
+                      <div>
+                        <div className="font-medium">{TRIGGER_TYPE_LABELS[type]}</div>
+                        <div className="text-xs text-slate-500">
+                          {type === "stop-market" ? "Market order at the stop" : "Limit order at the stop"}
+                        </div>
+                      </div>
+                    </div>
+                  </SelectItem>
+                ))}
+                <SelectItem value="take-profit">
+                  <div className="flex items-center gap-3 py-1">
+                    <Target className="w-4 h-4 text-purple-500" />
+                    <div>
+                      <div className="font-medium">{TRIGGER_TYPE_LABELS["take-profit"]}</div>
+                      <div className="text-xs text-slate-500">Market order at the target</div>
+                    </div>
+                  </div>
+                </SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -279,12 +939,48 @@ export default function OrderSimulationForm({
           </div>
         </div>
 
+        {/* Trigger Price and Reference */}
+        {isTrigger && (
+          <div className="space-y-3">
+            <Label htmlFor="triggerPrice" className="text-sm font-bold flex items-center gap-2">
+              <Crosshair className="w-4 h-4" />
+              Trigger Price (USD)
+            </Label>
+            <div className="flex gap-3">
+              <Input
+                id="triggerPrice"
+                type="number"
+                step="0.01"
+                value={triggerPrice}
+                onChange={(e) => setTriggerPrice(e.target.value)}
+                placeholder={referencePrice(priceSource, orderbookData, ticker)?.toFixed(2) ?? "Enter trigger price"}
+                className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm hover:bg-white dark:hover:bg-slate-800 transition-all duration-200 focus:scale-105"
+              />
+              <Select value={priceSource} onValueChange={(value: TriggerPriceSource) => setPriceSource(value)}>
+                <SelectTrigger className="w-40 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRIGGER_PRICE_SOURCES.map((source) => {
+                    const sourcePrice = referencePrice(source, orderbookData, ticker)
+                    return (
+                      <SelectItem key={source} value={source} disabled={sourcePrice === null}>
+                        {source} {sourcePrice === null ? "(n/a)" : `$${sourcePrice.toFixed(2)}`}
+                      </SelectItem>
+                    )
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
         {/* Interactive Price Input */}
-        {orderType === "limit" && (
+        {hasLimitPrice && (
           <div className="space-y-3">
             <Label htmlFor="price" className="text-sm font-bold flex items-center gap-2">
               <DollarSign className="w-4 h-4" />
-              Price (USD)
+              {isTrigger ? "Limit Price (USD)" : "Price (USD)"}
             </Label>
             <div className="flex gap-3">
               <Input
@@ -310,6 +1006,81 @@ export default function OrderSimulationForm({
           </div>
         )}
 
+        {/* Time in Force and Execution Instructions */}
+        <div className={`space-y-3 ${isTrigger || isAlgorithm ? "hidden" : ""}`}>
+          {orderType === "limit" && (
+            <>
+              <Label htmlFor="timeInForce" className="text-sm font-bold flex items-center gap-2">
+                <Clock className="w-4 h-4" />
+                Time in Force
+              </Label>
+              <Select value={instructions.timeInForce} onValueChange={(value: TimeInForce) => setTimeInForce(value)}>
+                <SelectTrigger
+                  id="timeInForce"
+                  className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm hover:scale-105 transition-all duration-200"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIME_IN_FORCE_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      <div className="py-1">
+                        <div className="font-medium">{option}</div>
+                        <div className="text-xs text-slate-500">
+                          {venueRules.timeInForce.includes(option)
+                            ? TIME_IN_FORCE_LABELS[option]
+                            : `Not accepted on ${venue}`}
+                        </div>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="postOnly" className="text-sm">
+                  Post-only
+                  <span className="ml-2 text-xs font-normal text-slate-500">
+                    {venueRules.postOnlyCrossing === "reprice"
+                      ? "repriced if it would cross"
+                      : "rejected if it would cross"}
+                  </span>
+                </Label>
+                <Switch
+                  id="postOnly"
+                  checked={instructions.postOnly}
+                  onCheckedChange={(postOnly) =>
+                    setInstructions({
+                      ...instructions,
+                      postOnly,
+                      timeInForce: postOnly ? "GTC" : instructions.timeInForce,
+                    })
+                  }
+                />
+              </div>
+            </>
+          )}
+          <div className="flex items-center justify-between">
+            <Label htmlFor="reduceOnly" className="text-sm">
+              Reduce-only
+            </Label>
+            <Switch
+              id="reduceOnly"
+              checked={instructions.reduceOnly}
+              onCheckedChange={(reduceOnly) => setInstructions({ ...instructions, reduceOnly })}
+            />
+          </div>
+          {instructions.reduceOnly && (
+            <Input
+              type="number"
+              step="0.0001"
+              value={position}
+              onChange={(e) => setPosition(e.target.value)}
+              placeholder="Open position (negative for short)"
+              className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm"
+            />
+          )}
+        </div>
+
         {/* Interactive Quantity Input with Slider */}
         <div className="space-y-4">
           <Label htmlFor="quantity" className="text-sm font-bold flex items-center gap-2">
@@ -347,7 +1118,7 @@ export default function OrderSimulationForm({
         </div>
 
         {/* Interactive Timing Selection */}
-        <div className="space-y-3">
+        <div className={`space-y-3 ${isTrigger || isAlgorithm ? "hidden" : ""}`}>
           <Label htmlFor="timing" className="text-sm font-bold flex items-center gap-2">
             <Clock className="w-4 h-4" />
             Execution Timing
@@ -374,6 +1145,146 @@ export default function OrderSimulationForm({
           </Select>
         </div>
 
+        {/* Parent Order Algorithm */}
+        <div className={`space-y-3 ${isTrigger ? "hidden" : ""}`}>
+          <Label htmlFor="algorithm" className="text-sm font-bold flex items-center gap-2">
+            <Layers className="w-4 h-4" />
+            Execution Algorithm
+          </Label>
+          <Select
+            value={algorithm}
+            onValueChange={(value: ParentOrderStrategy | "none") => {
+              setAlgorithm(value)
+              setParentError(null)
+            }}
+          >
+            <SelectTrigger
+              id="algorithm"
+              className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm hover:scale-105 transition-all duration-200"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Single order</SelectItem>
+              {PARENT_ORDER_STRATEGIES.map((strategy) => (
+                <SelectItem key={strategy} value={strategy}>
+                  {STRATEGY_LABELS[strategy]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isAlgorithm && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="horizon" className="text-xs text-slate-500">
+                    Horizon (s)
+                  </Label>
+                  <Input
+                    id="horizon"
+                    type="number"
+                    step="1"
+                    value={parentInputs.horizonSeconds}
+                    onChange={(e) => setParentInputs({ ...parentInputs, horizonSeconds: e.target.value })}
+                    className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="slices" className="text-xs text-slate-500">
+                    {algorithm === "pov" ? "Child intervals" : "Child orders"}
+                  </Label>
+                  <Input
+                    id="slices"
+                    type="number"
+                    step="1"
+                    value={parentInputs.slices}
+                    onChange={(e) => setParentInputs({ ...parentInputs, slices: e.target.value })}
+                    className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm"
+                  />
+                </div>
+              </div>
+              {algorithm === "pov" && (
+                <div className="space-y-1">
+                  <Label htmlFor="participation" className="text-xs text-slate-500">
+                    Participation (% of traded volume)
+                  </Label>
+                  <Input
+                    id="participation"
+                    type="number"
+                    step="1"
+                    value={parentInputs.participationPercent}
+                    onChange={(e) => setParentInputs({ ...parentInputs, participationPercent: e.target.value })}
+                    className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm"
+                  />
+                </div>
+              )}
+              {algorithm === "vwap" && (
+                <Select value={curve} onValueChange={(value: VolumeCurve) => setCurve(value)}>
+                  <SelectTrigger className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VOLUME_CURVES.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {VOLUME_CURVE_LABELS[option]} volume curve
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Select
+                value={parentSource}
+                onValueChange={(value: ParentOrderParams["source"]) => setParentSource(value)}
+              >
+                <SelectTrigger className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="live">Live book from now</SelectItem>
+                  <SelectItem value="replay">Replay the book over the last horizon</SelectItem>
+                </SelectContent>
+              </Select>
+            </>
+          )}
+        </div>
+
+        {/* Fee Schedule */}
+        <div className="space-y-3">
+          <Label htmlFor="feeTier" className="text-sm font-bold flex items-center gap-2">
+            <DollarSign className="w-4 h-4" />
+            Fees
+            <span className="ml-auto font-mono text-xs font-normal text-slate-500">
+              maker {formatFeeRate(feeRates.maker)} / taker {formatFeeRate(feeRates.taker)}
+            </span>
+          </Label>
+          <Select value={String(tierIndex)} onValueChange={(value) => setFeeTier(Number(value))}>
+            <SelectTrigger
+              id="feeTier"
+              className="bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm hover:scale-105 transition-all duration-200"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {VENUE_FEE_TIERS[venue].map((tier, index) => (
+                <SelectItem key={tier.name} value={String(index)}>
+                  {venue} {tier.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FeeOverrideInputs
+            key={overrideKey}
+            override={feeOverride}
+            tierRates={getFeeRates(venue, instrument, { ...feeSelection, overrides: {} })}
+            onChange={setFeeOverride}
+          />
+          {feeOverride && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Override for {symbol} replaces the {getFeeTier(venue, feeSelection).name} rates
+            </p>
+          )}
+        </div>
+
         {/* Interactive Action Buttons */}
         <div className="flex gap-3">
           <Button
@@ -388,13 +1299,23 @@ export default function OrderSimulationForm({
               </div>
             ) : (
               <>
-                <Calculator className="w-4 h-4 mr-2" />
-                Simulate Order
+                {isTrigger ? (
+                  <Crosshair className="w-4 h-4 mr-2" />
+                ) : isAlgorithm ? (
+                  <Layers className="w-4 h-4 mr-2" />
+                ) : (
+                  <Calculator className="w-4 h-4 mr-2" />
+                )}
+                {isTrigger
+                  ? "Arm Trigger"
+                  : algorithm !== "none"
+                    ? `Start ${STRATEGY_LABELS[algorithm]}`
+                    : "Simulate Order"}
               </>
             )}
           </Button>
           <Button
-            onClick={onClearSimulation}
+            onClick={handleClear}
             variant="outline"
             className="px-6 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm hover:scale-110 transition-all duration-200"
           >
@@ -402,6 +1323,26 @@ export default function OrderSimulationForm({
           </Button>
         </div>
 
+        {triggerError && <OrderStatusNotice quantity={Number.parseFloat(quantity)} rejectionReason={triggerError} />}
+
+        {parentError && <OrderStatusNotice quantity={Number.parseFloat(quantity)} rejectionReason={parentError} />}
+
+        {delayedOrder && <DelayedExecutionPanel order={delayedOrder} now={now} />}
+
+        {parentExecution && (
+          <ParentOrderPanel
+            execution={parentExecution}
+            cost={parentOrderCost(parentExecution, feeRates, instrumentSpec)}
+            now={now}
+          />
+        )}
+
+        <TriggerOrdersPanel
+          triggers={triggers}
+          log={triggerLog}
+          onCancel={(id) => setTriggers((current) => current.filter((trigger) => trigger.id !== id))}
+        />
+
         {/* Advanced Options Toggle */}
         <Button
           variant="ghost"
@@ -412,7 +1353,7 @@ export default function OrderSimulationForm({
         </Button>
 
         {/* Real-time Impact Preview */}
-        {quantity && orderbookData && (
+        {quantity && orderbookData && !isTrigger && (
           <div className="border-t border-slate-200 dark:border-slate-700 pt-6">
             <div className="flex items-center gap-3 mb-4">
               <div className="relative">
@@ -425,87 +1366,150 @@ export default function OrderSimulationForm({
               </Badge>
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
-              <div className="space-y-4">
-                <div className="group p-4 bg-gradient-to-br from-white/60 to-slate-50/60 dark:from-slate-800/60 dark:to-slate-700/60 rounded-xl hover:shadow-xl transition-all duration-300 hover:scale-105 cursor-pointer backdrop-blur-sm">
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-slate-600 dark:text-slate-400 font-medium">Fill Rate</span>
-                    <div className="flex items-center gap-2">
-                      {metrics.estimatedFill >= 100 ? (
-                        <CheckCircle className="w-4 h-4 text-green-500 animate-pulse" />
-                      ) : metrics.estimatedFill >= 50 ? (
-                        <AlertCircle className="w-4 h-4 text-yellow-500 animate-pulse" />
-                      ) : (
-                        <XCircle className="w-4 h-4 text-red-500 animate-pulse" />
-                      )}
-                      <span
-                        className={`font-mono font-bold text-lg ${
+            <OrderStatusNotice quantity={quantityValue} {...outcome} className="mb-4" />
+
+            {isRejectedPreview ? null : isRestingPreview ? (
+              <div className="p-4 bg-gradient-to-br from-white/60 to-slate-50/60 dark:from-slate-800/60 dark:to-slate-700/60 rounded-xl backdrop-blur-sm">
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-slate-600 dark:text-slate-400 font-medium">Queue Ahead</span>
+                  <span className="font-mono font-bold text-lg text-slate-900 dark:text-white">
+                    {displayedSizeAt(orderbookData, side, previewPrice).toFixed(4)}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Rests at ${previewPrice.toFixed(2)} behind the size displayed there. Once simulated, the queue is
+                  tracked on the live book for fill probability and time to fill.
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-4">
+                  <div className="group p-4 bg-gradient-to-br from-white/60 to-slate-50/60 dark:from-slate-800/60 dark:to-slate-700/60 rounded-xl hover:shadow-xl transition-all duration-300 hover:scale-105 cursor-pointer backdrop-blur-sm">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-slate-600 dark:text-slate-400 font-medium">Fill Rate</span>
+                      <div className="flex items-center gap-2">
+                        {metrics.estimatedFill >= 100 ? (
+                          <CheckCircle className="w-4 h-4 text-green-500 animate-pulse" />
+                        ) : metrics.estimatedFill >= 50 ? (
+                          <AlertCircle className="w-4 h-4 text-yellow-500 animate-pulse" />
+                        ) : (
+                          <XCircle className="w-4 h-4 text-red-500 animate-pulse" />
+                        )}
+                        <span
+                          className={`font-mono font-bold text-lg ${
+                            metrics.estimatedFill >= 100
+                              ? "text-green-600"
+                              : metrics.estimatedFill >= 50
+                                ? "text-yellow-600"
+                                : "text-red-600"
+                          }`}
+                        >
+                          {metrics.estimatedFill.toFixed(1)}%
+                        </span>
+                      </div>
+                    </div>
+                    <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-3 overflow-hidden">
+                      <div
+                        className={`h-full rounded-full transition-all duration-1000 ${
                           metrics.estimatedFill >= 100
-                            ? "text-green-600"
+                            ? "bg-gradient-to-r from-green-400 to-green-600"
                             : metrics.estimatedFill >= 50
-                              ? "text-yellow-600"
-                              : "text-red-600"
+                              ? "bg-gradient-to-r from-yellow-400 to-yellow-600"
+                              : "bg-gradient-to-r from-red-400 to-red-600"
                         }`}
-                      >
-                        {metrics.estimatedFill.toFixed(1)}%
-                      </span>
+                        style={{ width: `${Math.min(metrics.estimatedFill, 100)}%` }}
+                      />
                     </div>
                   </div>
-                  <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-3 overflow-hidden">
-                    <div
-                      className={`h-full rounded-full transition-all duration-1000 ${
-                        metrics.estimatedFill >= 100
-                          ? "bg-gradient-to-r from-green-400 to-green-600"
-                          : metrics.estimatedFill >= 50
-                            ? "bg-gradient-to-r from-yellow-400 to-yellow-600"
-                            : "bg-gradient-to-r from-red-400 to-red-600"
-                      }`}
-                      style={{ width: `${Math.min(metrics.estimatedFill, 100)}%` }}
-                    />
+
+                  <div className="group p-4 bg-gradient-to-br from-white/60 to-slate-50/60 dark:from-slate-800/60 dark:to-slate-700/60 rounded-xl hover:shadow-xl transition-all duration-300 hover:scale-105 cursor-pointer backdrop-blur-sm">
+                    <div className="flex justify-between items-center">
+                      <span className="text-slate-600 dark:text-slate-400 font-medium">Market Impact</span>
+                      <span className="font-mono font-bold text-lg text-slate-900 dark:text-white">
+                        {metrics.marketImpact.toFixed(4)}%
+                      </span>
+                    </div>
                   </div>
                 </div>
 
-                <div className="group p-4 bg-gradient-to-br from-white/60 to-slate-50/60 dark:from-slate-800/60 dark:to-slate-700/60 rounded-xl hover:shadow-xl transition-all duration-300 hover:scale-105 cursor-pointer backdrop-blur-sm">
-                  <div className="flex justify-between items-center">
-                    <span className="text-slate-600 dark:text-slate-400 font-medium">Market Impact</span>
-                    <span className="font-mono font-bold text-lg text-slate-900 dark:text-white">
-                      {metrics.marketImpact.toFixed(4)}%
-                    </span>
+                <div className="space-y-4">
+                  <div className="group p-4 bg-gradient-to-br from-white/60 to-slate-50/60 dark:from-slate-800/60 dark:to-slate-700/60 rounded-xl hover:shadow-xl transition-all duration-300 hover:scale-105 cursor-pointer backdrop-blur-sm">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-slate-600 dark:text-slate-400 font-medium">Slippage</span>
+                      <div className="flex items-center gap-2">
+                        <div
+                          className={`w-3 h-3 rounded-full ${
+                            metrics.slippage > 0.1 ? "bg-red-500 animate-pulse" : "bg-green-500 animate-pulse"
+                          }`}
+                        />
+                        <span
+                          className={`font-mono font-bold text-lg ${
+                            metrics.slippage > 0.1 ? "text-red-600" : "text-green-600"
+                          }`}
+                        >
+                          {metrics.slippage.toFixed(4)}%
+                        </span>
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
 
-              <div className="space-y-4">
-                <div className="group p-4 bg-gradient-to-br from-white/60 to-slate-50/60 dark:from-slate-800/60 dark:to-slate-700/60 rounded-xl hover:shadow-xl transition-all duration-300 hover:scale-105 cursor-pointer backdrop-blur-sm">
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-slate-600 dark:text-slate-400 font-medium">Slippage</span>
-                    <div className="flex items-center gap-2">
-                      <div
-                        className={`w-3 h-3 rounded-full ${
-                          metrics.slippage > 0.1 ? "bg-red-500 animate-pulse" : "bg-green-500 animate-pulse"
-                        }`}
-                      />
-                      <span
-                        className={`font-mono font-bold text-lg ${
-                          metrics.slippage > 0.1 ? "text-red-600" : "text-green-600"
-                        }`}
-                      >
-                        {metrics.slippage.toFixed(4)}%
+                  <div className="group p-4 bg-gradient-to-br from-white/60 to-slate-50/60 dark:from-slate-800/60 dark:to-slate-700/60 rounded-xl hover:shadow-xl transition-all duration-300 hover:scale-105 cursor-pointer backdrop-blur-sm">
+                    <div className="flex justify-between items-center">
+                      <span className="text-slate-600 dark:text-slate-400 font-medium">Avg Price</span>
+                      <span className="font-mono font-bold text-lg text-slate-900 dark:text-white">
+                        ${metrics.averagePrice.toFixed(2)}
                       </span>
                     </div>
                   </div>
                 </div>
+              </div>
+            )}
 
-                <div className="group p-4 bg-gradient-to-br from-white/60 to-slate-50/60 dark:from-slate-800/60 dark:to-slate-700/60 rounded-xl hover:shadow-xl transition-all duration-300 hover:scale-105 cursor-pointer backdrop-blur-sm">
-                  <div className="flex justify-between items-center">
-                    <span className="text-slate-600 dark:text-slate-400 font-medium">Avg Price</span>
-                    <span className="font-mono font-bold text-lg text-slate-900 dark:text-white">
-                      ${metrics.averagePrice.toFixed(2)}
+            {outcome.immediateFill && (outcome.restingQuantity ?? 0) > 0 && (
+              <p className="mt-4 text-xs text-slate-500 dark:text-slate-400">
+                Fills {outcome.immediateFill.quantity.toFixed(4)} up to ${previewPrice.toFixed(2)} on arrival; the
+                remaining {(outcome.restingQuantity ?? 0).toFixed(4)} rests at the limit
+              </p>
+            )}
+
+            {/* Execution Cost Breakdown */}
+            {metrics.cost && (
+              <div className="mt-6 p-4 bg-gradient-to-r from-slate-50/80 to-slate-100/80 dark:from-slate-800/50 dark:to-slate-700/50 rounded-xl backdrop-blur-sm">
+                <div className="flex items-center justify-between mb-3">
+                  <h5 className="font-bold text-slate-900 dark:text-white">Execution Cost</h5>
+                  <Badge variant="outline" className="text-xs">
+                    {metrics.cost.liquidity} {formatFeeRate(metrics.cost.feeRate)}
+                  </Badge>
+                </div>
+                <div className="space-y-2 text-sm">
+                  {(
+                    [
+                      ["Fees", metrics.cost.fees],
+                      ["Slippage vs mid", metrics.cost.slippageVsMid],
+                      ["Slippage vs best", metrics.cost.slippageVsBest],
+                    ] as const
+                  ).map(([label, amount]) => (
+                    <div key={label} className="flex justify-between">
+                      <span className="text-slate-600 dark:text-slate-400">{label}:</span>
+                      <span className="font-mono text-slate-900 dark:text-white">{formatCost(amount)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between pt-2 border-t border-slate-200 dark:border-slate-700 font-bold">
+                    <span className="text-slate-700 dark:text-slate-300">Implementation shortfall:</span>
+                    <span
+                      className={`font-mono ${
+                        metrics.cost.implementationShortfall.quote > 0 ? "text-red-600" : "text-green-600"
+                      }`}
+                    >
+                      {formatCost(metrics.cost.implementationShortfall)}
                     </span>
                   </div>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    Against the arrival mid ${metrics.cost.midPrice.toFixed(2)}; negative amounts are savings
+                  </p>
                 </div>
               </div>
-            </div>
+            )}
 
             {/* Advanced Metrics */}
             {showAdvanced && (
@@ -534,20 +1538,24 @@ export default function OrderSimulationForm({
             )}
 
             {/* Warning for high impact orders */}
-            {(metrics.slippage > 0.5 || metrics.estimatedFill < 50) && (
-              <div className="mt-4 p-4 bg-gradient-to-r from-yellow-50 to-orange-50 dark:from-yellow-900/20 dark:to-orange-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl backdrop-blur-sm">
-                <div className="flex items-center gap-3">
-                  <AlertCircle className="w-5 h-5 text-yellow-600 animate-pulse" />
-                  <div>
-                    <span className="text-sm font-bold text-yellow-800 dark:text-yellow-300">High Impact Warning</span>
-                    <p className="text-xs text-yellow-700 dark:text-yellow-400 mt-1">
-                      This order may cause significant market impact or partial fills. Consider reducing size or using
-                      limit orders.
-                    </p>
+            {!isRejectedPreview &&
+              !isRestingPreview &&
+              (metrics.slippage > 0.5 || (orderType === "market" && metrics.estimatedFill < 50)) && (
+                <div className="mt-4 p-4 bg-gradient-to-r from-yellow-50 to-orange-50 dark:from-yellow-900/20 dark:to-orange-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl backdrop-blur-sm">
+                  <div className="flex items-center gap-3">
+                    <AlertCircle className="w-5 h-5 text-yellow-600 animate-pulse" />
+                    <div>
+                      <span className="text-sm font-bold text-yellow-800 dark:text-yellow-300">
+                        High Impact Warning
+                      </span>
+                      <p className="text-xs text-yellow-700 dark:text-yellow-400 mt-1">
+                        This order may cause significant market impact or partial fills. Consider reducing size or using
+                        limit orders.
+                      </p>
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
+              )}
           </div>
         )}
       </CardContent>
@@ -0,0 +1,66 @@
+"use client"
+
+import type { SimulatedOrder } from "../types/orderbook"
+import { AlertCircle, XCircle } from "lucide-react"
+
+type OrderStatusNoticeProps = Pick<
+  SimulatedOrder,
+  "price" | "quantity" | "rejectionReason" | "cancelledQuantity" | "cancelReasons" | "repricedFrom"
+> & {
+  className?: string
+}
+
+// Why the venue would reject the order, or what it changed or cancelled on the way to the book
+export default function OrderStatusNotice({
+  price,
+  quantity,
+  rejectionReason,
+  cancelledQuantity = 0,
+  cancelReasons,
+  repricedFrom,
+  className = "",
+}: OrderStatusNoticeProps) {
+  if (rejectionReason) {
+    return (
+      <div
+        className={`p-4 bg-gradient-to-r from-red-50 to-rose-50 dark:from-red-900/20 dark:to-rose-900/20 border border-red-200 dark:border-red-800 rounded-xl backdrop-blur-sm ${className}`}
+      >
+        <div className="flex items-center gap-3">
+          <XCircle className="w-5 h-5 text-red-600" />
+          <div>
+            <span className="text-sm font-bold text-red-800 dark:text-red-300">Rejected</span>
+            <p className="text-xs text-red-700 dark:text-red-400 mt-1">{rejectionReason}</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const notes = [
+    ...(repricedFrom !== undefined && price !== undefined
+      ? [`Post-only repriced from $${repricedFrom.toFixed(2)} to $${price.toFixed(2)} so it rests`]
+      : []),
+    ...(cancelReasons ?? []),
+  ]
+  if (notes.length === 0) return null
+
+  return (
+    <div
+      className={`p-4 bg-gradient-to-r from-yellow-50 to-orange-50 dark:from-yellow-900/20 dark:to-orange-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl backdrop-blur-sm ${className}`}
+    >
+      <div className="flex items-start gap-3">
+        <AlertCircle className="w-5 h-5 text-yellow-600 shrink-0" />
+        <div>
+          <span className="text-sm font-bold text-yellow-800 dark:text-yellow-300">
+            {cancelledQuantity >= quantity ? "Cancelled" : cancelledQuantity > 0 ? "Partially cancelled" : "Repriced"}
+          </span>
+          {notes.map((note) => (
+            <p key={note} className="text-xs text-yellow-700 dark:text-yellow-400 mt-1">
+              {note}
+            </p>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
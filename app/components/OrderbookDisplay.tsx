@@ -1,41 +1,288 @@
 "use client"
 
-import { useMemo, useState, useEffect } from "react"
+import { Fragment, memo, useCallback, useEffect, useMemo, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import type { OrderbookData, SimulatedOrder, Venue } from "../types/orderbook"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type {
+  OrderbookData,
+  OrderbookLevel,
+  QueuePosition,
+  SimulatedOrder,
+  TriggerOrder,
+  Venue,
+} from "../types/orderbook"
+import { groupPrice } from "../lib/priceGrouping"
+import { QUEUE_HORIZONS_SECONDS } from "../lib/queueModel"
+import { TRIGGER_TYPE_LABELS } from "../lib/triggerOrders"
 import { TrendingUp, TrendingDown, AlertTriangle, Maximize2, Minimize2, Volume2, VolumeX } from "lucide-react"
+import CanvasLadder from "./CanvasLadder"
+import OrderStatusNotice from "./OrderStatusNotice"
+
+// The hook hands over the whole book; only this many rows per side are rendered
+const ROW_OPTIONS = [10, 15, 25, 50, 100]
+// The canvas ladder draws every row on one element, so it can go much deeper than the DOM rows
+const CANVAS_ROW_OPTIONS = [...ROW_OPTIONS, 250, 500, 1000]
+
+type LadderRenderer = "dom" | "canvas"
+
+type LadderSide = "bid" | "ask"
+
+const SIDE_STYLES = {
+  ask: {
+    selected:
+      "bg-gradient-to-r from-red-100 to-red-50 dark:from-red-900/30 dark:to-red-800/20 border-2 border-red-400 dark:border-red-600 shadow-lg scale-102",
+    hovered: "bg-gradient-to-r from-red-50 to-red-25 dark:from-red-900/20 dark:to-red-800/10 shadow-md scale-101",
+    idle: "bg-red-50/50 dark:bg-red-900/10 hover:bg-red-100/80 dark:hover:bg-red-900/20 hover:shadow-md hover:scale-101",
+    background: "from-red-200/30",
+    price: "text-red-600 dark:text-red-400 group-hover:text-red-700 dark:group-hover:text-red-300",
+    track: "bg-red-200 dark:bg-red-800",
+    fill: "from-red-400 to-red-600",
+  },
+  bid: {
+    selected:
+      "bg-gradient-to-r from-green-100 to-green-50 dark:from-green-900/30 dark:to-green-800/20 border-2 border-green-400 dark:border-green-600 shadow-lg scale-102",
+    hovered:
+      "bg-gradient-to-r from-green-50 to-green-25 dark:from-green-900/20 dark:to-green-800/10 shadow-md scale-101",
+    idle: "bg-green-50/50 dark:bg-green-900/10 hover:bg-green-100/80 dark:hover:bg-green-900/20 hover:shadow-md hover:scale-101",
+    background: "from-green-200/30",
+    price: "text-green-600 dark:text-green-400 group-hover:text-green-700 dark:group-hover:text-green-300",
+    track: "bg-green-200 dark:bg-green-800",
+    fill: "from-green-400 to-green-600",
+  },
+}
+
+const SIMULATED_ROW_STYLE =
+  "bg-gradient-to-r from-yellow-100 to-yellow-50 dark:from-yellow-900/30 dark:to-yellow-800/20 border-2 border-yellow-400 dark:border-yellow-600 shadow-lg scale-105"
+// Levels a simulated marketable order takes liquidity from on arrival
+const SIMULATED_FILL_ROW_STYLE =
+  "bg-gradient-to-r from-blue-100 to-blue-50 dark:from-blue-900/30 dark:to-blue-800/20 border-2 border-dashed border-blue-400 dark:border-blue-600"
+
+interface LadderRowProps {
+  side: LadderSide
+  level: OrderbookLevel
+  // Cumulative size from the top of the book down to this level
+  total: number
+  volumeWidth: number
+  isSimulated: boolean
+  isFilled: boolean
+  isHovered: boolean
+  isSelected: boolean
+  onHover: (price: number, side: LadderSide) => void
+  onLeave: () => void
+  onSelect: (price: number, side: LadderSide) => void
+}
+
+// Rows only re-render when their own level, total or highlight changes; the book keeps unchanged levels as the
+// same objects between updates
+const LadderRow = memo(function LadderRow({
+  side,
+  level,
+  total,
+  volumeWidth,
+  isSimulated,
+  isFilled,
+  isHovered,
+  isSelected,
+  onHover,
+  onLeave,
+  onSelect,
+}: LadderRowProps) {
+  const styles = SIDE_STYLES[side]
+
+  return (
+    <div
+      className={`relative grid grid-cols-4 gap-4 p-3 rounded-lg text-sm transition-all duration-200 cursor-pointer group ${
+        isSimulated
+          ? SIMULATED_ROW_STYLE
+          : isFilled
+            ? SIMULATED_FILL_ROW_STYLE
+            : isSelected
+              ? styles.selected
+              : isHovered
+                ? styles.hovered
+                : styles.idle
+      }`}
+      onMouseEnter={() => onHover(level.price, side)}
+      onMouseLeave={onLeave}
+      onClick={() => onSelect(level.price, side)}
+    >
+      {/* Volume Bar Background */}
+      <div
+        className={`absolute inset-0 bg-gradient-to-r ${styles.background} to-transparent rounded-lg transition-all duration-300`}
+        style={{ width: `${volumeWidth}%` }}
+      />
+
+      <div className={`relative font-mono font-bold transition-colors ${styles.price}`}>${level.price.toFixed(2)}</div>
+      <div className="relative font-mono text-slate-700 dark:text-slate-300 text-right group-hover:text-slate-900 dark:group-hover:text-white transition-colors">
+        {level.quantity.toFixed(4)}
+      </div>
+      <div className="relative font-mono text-slate-500 dark:text-slate-400 text-right text-xs group-hover:text-slate-700 dark:group-hover:text-slate-300 transition-colors">
+        {total.toFixed(4)}
+      </div>
+      <div className="relative text-right">
+        <div className={`w-full ${styles.track} rounded-full h-2 overflow-hidden`}>
+          <div
+            className={`h-full bg-gradient-to-r ${styles.fill} rounded-full transition-all duration-500`}
+            style={{ width: `${volumeWidth}%` }}
+          />
+        </div>
+      </div>
+
+      {/* Hover Tooltip */}
+      {isHovered && (
+        <div className="absolute -top-12 left-1/2 transform -translate-x-1/2 bg-slate-900 text-white text-xs px-3 py-2 rounded-lg shadow-xl z-10 whitespace-nowrap">
+          Click to select • ${level.price.toFixed(2)} × {level.quantity.toFixed(4)}
+          <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-slate-900" />
+        </div>
+      )}
+    </div>
+  )
+})
+
+// Running totals from the best level outwards
+function cumulativeTotals(levels: OrderbookLevel[]) {
+  let total = 0
+  return levels.map((level) => (total += level.quantity))
+}
+
+// Rows run from the highest price down, so a trigger line goes above the first row at or below its price, or after the
+// last row when there is none
+function triggerRowIndex(levels: OrderbookLevel[], price: number) {
+  const index = levels.findIndex((level) => level.price <= price)
+  return index === -1 ? levels.length : index
+}
+
+// Price range on the other side that the order's immediate part swept, in ladder side terms and grouped like its rows
+function filledRangeFor(order: SimulatedOrder | null, step: number | null, side: LadderSide): [number, number] | null {
+  const fill = order?.immediateFill
+  if (!fill || (order.side === "buy") !== (side === "ask")) return null
+  const best = groupPrice(fill.bestPrice, step, side)
+  const worst = groupPrice(fill.worstPrice, step, side)
+  return [Math.min(best, worst), Math.max(best, worst)]
+}
+
+// Trigger prices from the key they are joined into, so the array only changes when the prices do
+function splitTriggerKey(key: string) {
+  return key ? key.split(",").map(Number) : []
+}
+
+function TriggerLine({ trigger }: { trigger: TriggerOrder }) {
+  return (
+    <div className="flex items-center gap-2 py-0.5 text-[10px] font-mono text-purple-600 dark:text-purple-400">
+      <div className="flex-1 border-t-2 border-dashed border-purple-500" />
+      {TRIGGER_TYPE_LABELS[trigger.type]} {trigger.side} @ ${trigger.triggerPrice.toFixed(2)} ({trigger.priceSource})
+      <div className="w-4 border-t-2 border-dashed border-purple-500" />
+    </div>
+  )
+}
 
 interface OrderbookDisplayProps {
   venue: Venue
   symbol: string
   orderbookData: OrderbookData | null
+  // Step the levels are grouped by, if any, so the simulated order is matched to the level it falls in
+  groupingStep?: number | null
   simulatedOrder: SimulatedOrder | null
+  // Armed trigger orders, marked on the ladder at their trigger price
+  triggers: TriggerOrder[]
   isConnected: boolean
+  isStale?: boolean
+  // Called after every commit, for the performance overlay
+  onRender?: () => void
 }
 
-export default function OrderbookDisplay({
+function QueueSummary({ queue }: { queue: QueuePosition }) {
+  const progress = queue.initialSizeAhead > 0 ? 1 - queue.sizeAhead / queue.initialSizeAhead : 1
+  return (
+    <div className="space-y-4">
+      <div className="p-4 bg-white/60 dark:bg-slate-800/60 rounded-xl">
+        <div className="flex justify-between items-center">
+          <span className="text-slate-600 dark:text-slate-400 font-medium">Size Ahead</span>
+          <span className="font-mono font-bold text-lg text-slate-900 dark:text-white">
+            {queue.sizeAhead.toFixed(4)} / {queue.initialSizeAhead.toFixed(4)}
+          </span>
+        </div>
+        <div className="mt-2 w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 overflow-hidden">
+          <div
+            className="h-full rounded-full bg-gradient-to-r from-blue-400 to-purple-600 transition-all duration-500"
+            style={{ width: `${progress * 100}%` }}
+          />
+        </div>
+        <div className="flex justify-between mt-2 text-xs text-slate-500 dark:text-slate-400">
+          <span>Traded {queue.tradedVolume.toFixed(4)}</span>
+          <span>Cancelled {queue.cancelledVolume.toFixed(4)}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="p-4 bg-white/60 dark:bg-slate-800/60 rounded-xl">
+          <div className="text-slate-600 dark:text-slate-400 font-medium">Filled</div>
+          <div className="font-mono font-bold text-lg text-slate-900 dark:text-white">
+            {queue.filledQuantity.toFixed(4)} / {queue.quantity}
+          </div>
+        </div>
+        <div className="p-4 bg-white/60 dark:bg-slate-800/60 rounded-xl">
+          <div className="text-slate-600 dark:text-slate-400 font-medium">Time to Fill</div>
+          <div className="font-mono font-bold text-lg text-slate-900 dark:text-white">
+            {queue.expectedTimeToFill === null ? "—" : `${queue.expectedTimeToFill.toFixed(1)}s`}
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 bg-white/60 dark:bg-slate-800/60 rounded-xl">
+        <div className="text-slate-600 dark:text-slate-400 font-medium mb-2">Fill Probability</div>
+        <div className="grid grid-cols-3 gap-2">
+          {QUEUE_HORIZONS_SECONDS.map((horizon) => (
+            <div key={horizon} className="text-center">
+              <div className="text-xs text-slate-500 dark:text-slate-400">{horizon}s</div>
+              <div className="font-mono font-bold text-slate-900 dark:text-white">
+                {((queue.fillProbability[horizon] ?? 0) * 100).toFixed(1)}%
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function OrderbookDisplay({
   venue,
   symbol,
   orderbookData,
+  groupingStep = null,
   simulatedOrder,
+  triggers,
   isConnected,
+  isStale = false,
+  onRender,
 }: OrderbookDisplayProps) {
   const [hoveredLevel, setHoveredLevel] = useState<{ price: number; side: "bid" | "ask" } | null>(null)
   const [selectedLevel, setSelectedLevel] = useState<{ price: number; side: "bid" | "ask" } | null>(null)
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [soundEnabled, setSoundEnabled] = useState(false)
-  const [lastUpdate, setLastUpdate] = useState<number>(0)
+  const [rowCount, setRowCount] = useState(15)
+  const [renderer, setRenderer] = useState<LadderRenderer>("dom")
+  const rowOptions = renderer === "canvas" ? CANVAS_ROW_OPTIONS : ROW_OPTIONS
 
   // Memoize calculations to prevent unnecessary re-renders
-  const { processedAsks, processedBids, spread, midPrice, volumeWeightedPrice } = useMemo(() => {
+  const { processedAsks, processedBids, askTotals, bidTotals, spread, midPrice, volumeWeightedPrice } = useMemo(() => {
     if (!orderbookData) {
-      return { processedAsks: [], processedBids: [], spread: 0, midPrice: 0, volumeWeightedPrice: 0 }
+      return {
+        processedAsks: [],
+        processedBids: [],
+        askTotals: [],
+        bidTotals: [],
+        spread: 0,
+        midPrice: 0,
+        volumeWeightedPrice: 0,
+      }
     }
 
-    const asks = orderbookData.asks.slice(0, 15)
-    const bids = orderbookData.bids.slice(0, 15)
+    const asks = orderbookData.asks.slice(0, rowCount)
+    const bids = orderbookData.bids.slice(0, rowCount)
     const spreadValue = asks[0] && bids[0] ? asks[0].price - bids[0].price : 0
     const midPriceValue = asks[0] && bids[0] ? (asks[0].price + bids[0].price) / 2 : 0
 
@@ -49,34 +296,61 @@ export default function OrderbookDisplay({
     return {
       processedAsks: asks,
       processedBids: bids,
+      askTotals: cumulativeTotals(asks),
+      bidTotals: cumulativeTotals(bids),
       spread: spreadValue,
       midPrice: midPriceValue,
       volumeWeightedPrice: vwap || 0,
     }
-  }, [orderbookData])
+  }, [orderbookData, rowCount])
 
-  // Update animation trigger
   useEffect(() => {
-    if (orderbookData) {
-      setLastUpdate(Date.now())
-    }
-  }, [orderbookData])
-
-  const isSimulatedOrderAtLevel = (price: number, side: "buy" | "sell") => {
-    if (!simulatedOrder || simulatedOrder.type === "market") return false
-    return Math.abs((simulatedOrder.price || 0) - price) < 0.01 && simulatedOrder.side === side
-  }
-
-  const handleLevelClick = (price: number, side: "bid" | "ask") => {
-    setSelectedLevel({ price, side })
-    if (soundEnabled) {
-      console.log("Click sound for level:", price, side)
-    }
-  }
+    onRender?.()
+  })
+
+  // Only the part of a limit order left resting is drawn at its price
+  const hasRestingPart =
+    simulatedOrder !== null && simulatedOrder.type !== "market" && simulatedOrder.restingQuantity !== 0
+
+  // The level the resting part is shown at: its own price, or the grouped level that contains it
+  const restingLevelPrice =
+    simulatedOrder && hasRestingPart && simulatedOrder.price !== undefined
+      ? groupPrice(simulatedOrder.price, groupingStep, simulatedOrder.side === "buy" ? "bid" : "ask")
+      : null
+  const isRestingLevel = (price: number) => restingLevelPrice !== null && Math.abs(price - restingLevelPrice) < 1e-9
+
+  const isSimulatedOrderAtLevel = (price: number, side: "buy" | "sell") =>
+    simulatedOrder?.side === side && isRestingLevel(price)
+
+  // Kept stable between book updates so the canvas ladder only redraws for the order
+  const [askFilledRange, bidFilledRange] = useMemo(
+    () => [filledRangeFor(simulatedOrder, groupingStep, "ask"), filledRangeFor(simulatedOrder, groupingStep, "bid")],
+    [simulatedOrder, groupingStep],
+  )
+  const isInRange = (price: number, range: [number, number] | null) =>
+    range !== null && price >= range[0] - 1e-9 && price <= range[1] + 1e-9
+
+  // A resting price with no visible row on its side, such as a marketable limit's remainder inside the live spread
+  const restingPrice = hasRestingPart ? (simulatedOrder?.price ?? null) : null
+  const isRestingRowVisible =
+    restingPrice !== null &&
+    (simulatedOrder?.side === "buy" ? processedBids : processedAsks).some((level) => isRestingLevel(level.price))
+
+  const handleLevelClick = useCallback(
+    (price: number, side: LadderSide) => {
+      setSelectedLevel({ price, side })
+      if (soundEnabled) {
+        console.log("Click sound for level:", price, side)
+      }
+    },
+    [soundEnabled],
+  )
 
-  const handleLevelHover = (price: number, side: "bid" | "ask") => {
+  const handleLevelHover = useCallback((price: number, side: LadderSide) => {
     setHoveredLevel({ price, side })
-  }
+  }, [])
+
+  const handleLevelLeave = useCallback(() => setHoveredLevel(null), [])
 
   const getVolumeBarWidth = (quantity: number, maxQuantity: number) => {
     return Math.max((quantity / maxQuantity) * 100, 5)
@@ -85,6 +359,38 @@ export default function OrderbookDisplay({
   const maxBidQuantity = Math.max(...processedBids.map((bid) => bid.quantity), 1)
   const maxAskQuantity = Math.max(...processedAsks.map((ask) => ask.quantity), 1)
 
+  // Asks are drawn worst price first so the best ask sits next to the spread
+  const [asksTopDown, askTotalsTopDown] = useMemo(
+    () => [processedAsks.slice().reverse(), askTotals.slice().reverse()],
+    [processedAsks, askTotals],
+  )
+
+  // Triggers at or beyond a touch are drawn on that side's rows, the rest inside the spread
+  const bestAskPrice = orderbookData?.asks[0]?.price ?? Number.POSITIVE_INFINITY
+  const bestBidPrice = orderbookData?.bids[0]?.price ?? Number.NEGATIVE_INFINITY
+  const askTriggers = triggers.filter((trigger) => trigger.triggerPrice >= bestAskPrice)
+  const bidTriggers = triggers.filter((trigger) => trigger.triggerPrice <= bestBidPrice)
+  const spreadTriggers = triggers.filter(
+    (trigger) => trigger.triggerPrice < bestAskPrice && trigger.triggerPrice > bestBidPrice,
+  )
+  const askTriggerKey = askTriggers.map((trigger) => trigger.triggerPrice).join()
+  const bidTriggerKey = bidTriggers.map((trigger) => trigger.triggerPrice).join()
+  const askTriggerPrices = useMemo(() => splitTriggerKey(askTriggerKey), [askTriggerKey])
+  const bidTriggerPrices = useMemo(() => splitTriggerKey(bidTriggerKey), [bidTriggerKey])
+
+  const triggerLinesAt = (sideTriggers: TriggerOrder[], levels: OrderbookLevel[], index: number) =>
+    sideTriggers
+      .filter((trigger) => triggerRowIndex(levels, trigger.triggerPrice) === index)
+      .map((trigger) => <TriggerLine key={trigger.id} trigger={trigger} />)
+
+  const simulatedPriceFor = (side: "buy" | "sell") => (simulatedOrder?.side === side ? restingLevelPrice : null)
+
+  const handleRendererChange = (value: string) => {
+    const next = value as LadderRenderer
+    setRenderer(next)
+    if (next === "dom") setRowCount((rows) => Math.min(rows, ROW_OPTIONS[ROW_OPTIONS.length - 1]))
+  }
+
   if (!isConnected) {
     return (
       <Card className="shadow-2xl border-0 bg-gradient-to-br from-white/80 to-slate-50/80 dark:from-slate-800/80 dark:to-slate-900/80 backdrop-blur-xl">
@@ -131,14 +437,42 @@ export default function OrderbookDisplay({
       <CardHeader className="pb-4">
         <CardTitle className="flex items-center gap-2">
           <div className="relative">
-            <div className="w-3 h-3 rounded-full bg-green-500" />
-            <div className="absolute inset-0 w-3 h-3 rounded-full bg-green-500 animate-ping opacity-75" />
+            <div className={`w-3 h-3 rounded-full ${isStale ? "bg-amber-500" : "bg-green-500"}`} />
+            <div
+              className={`absolute inset-0 w-3 h-3 rounded-full animate-ping opacity-75 ${isStale ? "bg-amber-500" : "bg-green-500"}`}
+            />
           </div>
           <span className="text-lg">{venue} Orderbook</span>
+          {isStale && (
+            <Badge variant="secondary" className="text-xs text-amber-700 dark:text-amber-400">
+              Stale · resyncing
+            </Badge>
+          )}
           <Badge variant="outline" className="ml-auto hover:scale-105 transition-transform">
             {symbol}
           </Badge>
           <div className="flex items-center gap-2 ml-4">
+            <Select value={renderer} onValueChange={handleRendererChange}>
+              <SelectTrigger className="w-24 h-8 text-xs font-normal" title="Ladder renderer">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="dom">DOM</SelectItem>
+                <SelectItem value="canvas">Canvas</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={String(rowCount)} onValueChange={(value) => setRowCount(Number(value))}>
+              <SelectTrigger className="w-24 h-8 text-xs font-normal" title="Rows shown per side">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {rowOptions.map((rows) => (
+                  <SelectItem key={rows} value={String(rows)}>
+                    {rows} rows
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Button
               variant="ghost"
               size="sm"
@@ -183,7 +517,7 @@ export default function OrderbookDisplay({
               <div className="group cursor-pointer hover:scale-105 transition-transform">
                 <span className="text-slate-500 dark:text-slate-400 block">Last Update</span>
                 <div className="text-xs text-slate-600 dark:text-slate-300">
-                  {new Date(lastUpdate).toLocaleTimeString()}
+                  {new Date(orderbookData?.timestamp ?? 0).toLocaleTimeString()}
                 </div>
               </div>
             </div>
@@ -205,7 +539,7 @@ export default function OrderbookDisplay({
             </div>
           </div>
 
-          <div className="flex-1 overflow-hidden">
+          <div className={`flex-1 overflow-hidden transition-opacity ${isStale ? "opacity-50" : ""}`}>
             {/* Interactive Asks Section */}
             <div className="h-1/2 overflow-y-auto scrollbar-thin">
               <div className="px-6 py-3">
@@ -216,74 +550,48 @@ export default function OrderbookDisplay({
                   </div>
                   <span className="text-sm font-bold text-red-600 dark:text-red-400">ASKS</span>
                   <Badge variant="outline" className="text-xs animate-pulse">
-                    {processedAsks.length} levels
+                    {processedAsks.length} of {orderbookData?.asks.length ?? 0} levels
                   </Badge>
                 </div>
 
-                <div className="space-y-1">
-                  {processedAsks
-                    .slice()
-                    .reverse()
-                    .map((ask, index) => {
-                      const total = processedAsks
-                        .slice(0, processedAsks.length - index)
-                        .reduce((sum, a) => sum + a.quantity, 0)
-                      const isSimulated = isSimulatedOrderAtLevel(ask.price, "sell")
-                      const isHovered = hoveredLevel?.price === ask.price && hoveredLevel?.side === "ask"
-                      const isSelected = selectedLevel?.price === ask.price && selectedLevel?.side === "ask"
-                      const volumeWidth = getVolumeBarWidth(ask.quantity, maxAskQuantity)
-
-                      return (
-                        <div
-                          key={`ask-${ask.price}-${index}`}
-                          className={`relative grid grid-cols-4 gap-4 p-3 rounded-lg text-sm transition-all duration-200 cursor-pointer group ${
-                            isSimulated
-                              ? "bg-gradient-to-r from-yellow-100 to-yellow-50 dark:from-yellow-900/30 dark:to-yellow-800/20 border-2 border-yellow-400 dark:border-yellow-600 shadow-lg scale-105"
-                              : isSelected
-                                ? "bg-gradient-to-r from-red-100 to-red-50 dark:from-red-900/30 dark:to-red-800/20 border-2 border-red-400 dark:border-red-600 shadow-lg scale-102"
-                                : isHovered
-                                  ? "bg-gradient-to-r from-red-50 to-red-25 dark:from-red-900/20 dark:to-red-800/10 shadow-md scale-101"
-                                  : "bg-red-50/50 dark:bg-red-900/10 hover:bg-red-100/80 dark:hover:bg-red-900/20 hover:shadow-md hover:scale-101"
-                          }`}
-                          onMouseEnter={() => handleLevelHover(ask.price, "ask")}
-                          onMouseLeave={() => setHoveredLevel(null)}
-                          onClick={() => handleLevelClick(ask.price, "ask")}
-                        >
-                          {/* Volume Bar Background */}
-                          <div
-                            className="absolute inset-0 bg-gradient-to-r from-red-200/30 to-transparent rounded-lg transition-all duration-300"
-                            style={{ width: `${volumeWidth}%` }}
-                          />
-
-                          <div className="relative font-mono text-red-600 dark:text-red-400 font-bold group-hover:text-red-700 dark:group-hover:text-red-300 transition-colors">
-                            ${ask.price.toFixed(2)}
-                          </div>
-                          <div className="relative font-mono text-slate-700 dark:text-slate-300 text-right group-hover:text-slate-900 dark:group-hover:text-white transition-colors">
-                            {ask.quantity.toFixed(4)}
-                          </div>
-                          <div className="relative font-mono text-slate-500 dark:text-slate-400 text-right text-xs group-hover:text-slate-700 dark:group-hover:text-slate-300 transition-colors">
-                            {total.toFixed(4)}
-                          </div>
-                          <div className="relative text-right">
-                            <div className="w-full bg-red-200 dark:bg-red-800 rounded-full h-2 overflow-hidden">
-                              <div
-                                className="h-full bg-gradient-to-r from-red-400 to-red-600 rounded-full transition-all duration-500"
-                                style={{ width: `${volumeWidth}%` }}
-                              />
-                            </div>
-                          </div>
-
-                          {/* Hover Tooltip */}
-                          {isHovered && (
-                            <div className="absolute -top-12 left-1/2 transform -translate-x-1/2 bg-slate-900 text-white text-xs px-3 py-2 rounded-lg shadow-xl z-10 whitespace-nowrap">
-                              Click to select • ${ask.price.toFixed(2)} × {ask.quantity.toFixed(4)}
-                              <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-slate-900" />
-                            </div>
-                          )}
-                        </div>
-                      )
-                    })}
-                </div>
+                {renderer === "canvas" ? (
+                  <CanvasLadder
+                    side="ask"
+                    levels={asksTopDown}
+                    totals={askTotalsTopDown}
+                    maxQuantity={maxAskQuantity}
+                    hoveredPrice={hoveredLevel?.side === "ask" ? hoveredLevel.price : null}
+                    selectedPrice={selectedLevel?.side === "ask" ? selectedLevel.price : null}
+                    simulatedPrice={simulatedPriceFor("sell")}
+                    filledRange={askFilledRange}
+                    triggerPrices={askTriggerPrices}
+                    onHover={handleLevelHover}
+                    onLeave={handleLevelLeave}
+                    onSelect={handleLevelClick}
+                  />
+                ) : (
+                  <div className="space-y-1">
+                    {asksTopDown.map((ask, index) => (
+                      <Fragment key={ask.price}>
+                        {triggerLinesAt(askTriggers, asksTopDown, index)}
+                        <LadderRow
+                          side="ask"
+                          level={ask}
+                          total={askTotalsTopDown[index]}
+                          volumeWidth={getVolumeBarWidth(ask.quantity, maxAskQuantity)}
+                          isSimulated={isSimulatedOrderAtLevel(ask.price, "sell")}
+                          isFilled={isInRange(ask.price, askFilledRange)}
+                          isHovered={hoveredLevel?.price === ask.price && hoveredLevel?.side === "ask"}
+                          isSelected={selectedLevel?.price === ask.price && selectedLevel?.side === "ask"}
+                          onHover={handleLevelHover}
+                          onLeave={handleLevelLeave}
+                          onSelect={handleLevelClick}
+                        />
+                      </Fragment>
+                    ))}
+                    {triggerLinesAt(askTriggers, asksTopDown, asksTopDown.length)}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -298,6 +606,25 @@ export default function OrderbookDisplay({
                   <div className="h-full bg-gradient-to-r from-red-500 to-green-500 rounded-full animate-pulse" />
                 </div>
               </div>
+              {simulatedOrder && restingPrice !== null && !isRestingRowVisible && (
+                <div className="mt-3 px-3 py-1.5 rounded-lg text-xs font-mono text-center bg-yellow-100 dark:bg-yellow-900/30 border-2 border-yellow-400 dark:border-yellow-600">
+                  {simulatedOrder.side} {(simulatedOrder.restingQuantity ?? simulatedOrder.quantity).toFixed(4)} resting
+                  @ ${restingPrice.toFixed(2)}
+                </div>
+              )}
+              {spreadTriggers.length > 0 && (
+                <div className="mt-2">
+                  {spreadTriggers.map((trigger) => (
+                    <TriggerLine key={trigger.id} trigger={trigger} />
+                  ))}
+                </div>
+              )}
+              {simulatedOrder?.immediateFill && (
+                <div className="mt-2 px-3 py-1.5 rounded-lg text-xs font-mono text-center bg-blue-100 dark:bg-blue-900/30 border-2 border-dashed border-blue-400 dark:border-blue-600">
+                  {simulatedOrder.side} {simulatedOrder.immediateFill.quantity.toFixed(4)} filled @ $
+                  {simulatedOrder.immediateFill.averagePrice.toFixed(2)} avg
+                </div>
+              )}
             </div>
 
             {/* Interactive Bids Section */}
@@ -310,69 +637,48 @@ export default function OrderbookDisplay({
                   </div>
                   <span className="text-sm font-bold text-green-600 dark:text-green-400">BIDS</span>
                   <Badge variant="outline" className="text-xs animate-pulse">
-                    {processedBids.length} levels
+                    {processedBids.length} of {orderbookData?.bids.length ?? 0} levels
                   </Badge>
                 </div>
 
-                <div className="space-y-1">
-                  {processedBids.map((bid, index) => {
-                    const total = processedBids.slice(0, index + 1).reduce((sum, b) => sum + b.quantity, 0)
-                    const isSimulated = isSimulatedOrderAtLevel(bid.price, "buy")
-                    const isHovered = hoveredLevel?.price === bid.price && hoveredLevel?.side === "bid"
-                    const isSelected = selectedLevel?.price === bid.price && selectedLevel?.side === "bid"
-                    const volumeWidth = getVolumeBarWidth(bid.quantity, maxBidQuantity)
-
-                    return (
-                      <div
-                        key={`bid-${bid.price}-${index}`}
-                        className={`relative grid grid-cols-4 gap-4 p-3 rounded-lg text-sm transition-all duration-200 cursor-pointer group ${
-                          isSimulated
-                            ? "bg-gradient-to-r from-yellow-100 to-yellow-50 dark:from-yellow-900/30 dark:to-yellow-800/20 border-2 border-yellow-400 dark:border-yellow-600 shadow-lg scale-105"
-                            : isSelected
-                              ? "bg-gradient-to-r from-green-100 to-green-50 dark:from-green-900/30 dark:to-green-800/20 border-2 border-green-400 dark:border-green-600 shadow-lg scale-102"
-                              : isHovered
-                                ? "bg-gradient-to-r from-green-50 to-green-25 dark:from-green-900/20 dark:to-green-800/10 shadow-md scale-101"
-                                : "bg-green-50/50 dark:bg-green-900/10 hover:bg-green-100/80 dark:hover:bg-green-900/20 hover:shadow-md hover:scale-101"
-                        }`}
-                        onMouseEnter={() => handleLevelHover(bid.price, "bid")}
-                        onMouseLeave={() => setHoveredLevel(null)}
-                        onClick={() => handleLevelClick(bid.price, "bid")}
-                      >
-                        {/* Volume Bar Background */}
-                        <div
-                          className="absolute inset-0 bg-gradient-to-r from-green-200/30 to-transparent rounded-lg transition-all duration-300"
-                          style={{ width: `${volumeWidth}%` }}
+                {renderer === "canvas" ? (
+                  <CanvasLadder
+                    side="bid"
+                    levels={processedBids}
+                    totals={bidTotals}
+                    maxQuantity={maxBidQuantity}
+                    hoveredPrice={hoveredLevel?.side === "bid" ? hoveredLevel.price : null}
+                    selectedPrice={selectedLevel?.side === "bid" ? selectedLevel.price : null}
+                    simulatedPrice={simulatedPriceFor("buy")}
+                    filledRange={bidFilledRange}
+                    triggerPrices={bidTriggerPrices}
+                    onHover={handleLevelHover}
+                    onLeave={handleLevelLeave}
+                    onSelect={handleLevelClick}
+                  />
+                ) : (
+                  <div className="space-y-1">
+                    {processedBids.map((bid, index) => (
+                      <Fragment key={bid.price}>
+                        {triggerLinesAt(bidTriggers, processedBids, index)}
+                        <LadderRow
+                          side="bid"
+                          level={bid}
+                          total={bidTotals[index]}
+                          volumeWidth={getVolumeBarWidth(bid.quantity, maxBidQuantity)}
+                          isSimulated={isSimulatedOrderAtLevel(bid.price, "buy")}
+                          isFilled={isInRange(bid.price, bidFilledRange)}
+                          isHovered={hoveredLevel?.price === bid.price && hoveredLevel?.side === "bid"}
+                          isSelected={selectedLevel?.price === bid.price && selectedLevel?.side === "bid"}
+                          onHover={handleLevelHover}
+                          onLeave={handleLevelLeave}
+                          onSelect={handleLevelClick}
                         />
-
-                        <div className="relative font-mono text-green-600 dark:text-green-400 font-bold group-hover:text-green-700 dark:group-hover:text-green-300 transition-colors">
-                          ${bid.price.toFixed(2)}
-                        </div>
-                        <div className="relative font-mono text-slate-700 dark:text-slate-300 text-right group-hover:text-slate-900 dark:group-hover:text-white transition-colors">
-                          {bid.quantity.toFixed(4)}
-                        </div>
-                        <div className="relative font-mono text-slate-500 dark:text-slate-400 text-right text-xs group-hover:text-slate-700 dark:group-hover:text-slate-300 transition-colors">
-                          {total.toFixed(4)}
-                        </div>
-                        <div className="relative text-right">
-                          <div className="w-full bg-green-200 dark:bg-green-800 rounded-full h-2 overflow-hidden">
-                            <div
-                              className="h-full bg-gradient-to-r from-green-400 to-green-600 rounded-full transition-all duration-500"
-                              style={{ width: `${volumeWidth}%` }}
-                            />
-                          </div>
-                        </div>
-
-                        {/* Hover Tooltip */}
-                        {isHovered && (
-                          <div className="absolute -top-12 left-1/2 transform -translate-x-1/2 bg-slate-900 text-white text-xs px-3 py-2 rounded-lg shadow-xl z-10 whitespace-nowrap">
-                            Click to select • ${bid.price.toFixed(2)} × {bid.quantity.toFixed(4)}
-                            <div className="absolute top-full left-1/2 transform -translate-x-1/2 border-4 border-transparent border-t-slate-900" />
-                          </div>
-                        )}
-                      </div>
-                    )
-                  })}
-                </div>
+                      </Fragment>
+                    ))}
+                    {triggerLinesAt(bidTriggers, processedBids, processedBids.length)}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -392,94 +698,102 @@ export default function OrderbookDisplay({
               </Badge>
             </div>
 
-            <div className="grid grid-cols-2 gap-6">
-              <div className="space-y-4">
-                <div className="group p-4 bg-white/60 dark:bg-slate-800/60 rounded-xl hover:shadow-lg transition-all duration-300 hover:scale-105 cursor-pointer">
-                  <div className="flex justify-between items-center">
-                    <span className="text-slate-600 dark:text-slate-400 font-medium">Estimated Fill</span>
-                    <div className="flex items-center gap-2">
+            <OrderStatusNotice {...simulatedOrder} className="mb-4" />
+
+            {simulatedOrder.rejectionReason ? null : simulatedOrder.queue ? (
+              <QueueSummary queue={simulatedOrder.queue} />
+            ) : (
+              <div className="grid grid-cols-2 gap-6">
+                <div className="space-y-4">
+                  <div className="group p-4 bg-white/60 dark:bg-slate-800/60 rounded-xl hover:shadow-lg transition-all duration-300 hover:scale-105 cursor-pointer">
+                    <div className="flex justify-between items-center">
+                      <span className="text-slate-600 dark:text-slate-400 font-medium">Estimated Fill</span>
+                      <div className="flex items-center gap-2">
+                        <div
+                          className={`w-3 h-3 rounded-full ${
+                            simulatedOrder.estimatedFill >= 100
+                              ? "bg-green-500 animate-pulse"
+                              : simulatedOrder.estimatedFill >= 50
+                                ? "bg-yellow-500 animate-pulse"
+                                : "bg-red-500 animate-pulse"
+                          }`}
+                        />
+                        <span
+                          className={`font-mono font-bold text-lg ${
+                            simulatedOrder.estimatedFill >= 100
+                              ? "text-green-600"
+                              : simulatedOrder.estimatedFill >= 50
+                                ? "text-yellow-600"
+                                : "text-red-600"
+                          }`}
+                        >
+                          {simulatedOrder.estimatedFill.toFixed(1)}%
+                        </span>
+                      </div>
+                    </div>
+                    <div className="mt-2 w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 overflow-hidden">
                       <div
-                        className={`w-3 h-3 rounded-full ${
+                        className={`h-full rounded-full transition-all duration-1000 ${
                           simulatedOrder.estimatedFill >= 100
-                            ? "bg-green-500 animate-pulse"
+                            ? "bg-gradient-to-r from-green-400 to-green-600"
                             : simulatedOrder.estimatedFill >= 50
-                              ? "bg-yellow-500 animate-pulse"
-                              : "bg-red-500 animate-pulse"
+                              ? "bg-gradient-to-r from-yellow-400 to-yellow-600"
+                              : "bg-gradient-to-r from-red-400 to-red-600"
                         }`}
+                        style={{ width: `${simulatedOrder.estimatedFill}%` }}
                       />
-                      <span
-                        className={`font-mono font-bold text-lg ${
-                          simulatedOrder.estimatedFill >= 100
-                            ? "text-green-600"
-                            : simulatedOrder.estimatedFill >= 50
-                              ? "text-yellow-600"
-                              : "text-red-600"
-                        }`}
-                      >
-                        {simulatedOrder.estimatedFill.toFixed(1)}%
-                      </span>
                     </div>
                   </div>
-                  <div className="mt-2 w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 overflow-hidden">
-                    <div
-                      className={`h-full rounded-full transition-all duration-1000 ${
-                        simulatedOrder.estimatedFill >= 100
-                          ? "bg-gradient-to-r from-green-400 to-green-600"
-                          : simulatedOrder.estimatedFill >= 50
-                            ? "bg-gradient-to-r from-yellow-400 to-yellow-600"
-                            : "bg-gradient-to-r from-red-400 to-red-600"
-                      }`}
-                      style={{ width: `${simulatedOrder.estimatedFill}%` }}
-                    />
-                  </div>
-                </div>
-
-                <div className="group p-4 bg-white/60 dark:bg-slate-800/60 rounded-xl hover:shadow-lg transition-all duration-300 hover:scale-105 cursor-pointer">
-                  <div className="flex justify-between items-center">
-                    <span className="text-slate-600 dark:text-slate-400 font-medium">Market Impact</span>
-                    <span className="font-mono font-bold text-lg text-slate-900 dark:text-white">
-                      {simulatedOrder.marketImpact.toFixed(4)}%
-                    </span>
-                  </div>
-                </div>
-              </div>
 
-              <div className="space-y-4">
-                <div className="group p-4 bg-white/60 dark:bg-slate-800/60 rounded-xl hover:shadow-lg transition-all duration-300 hover:scale-105 cursor-pointer">
-                  <div className="flex justify-between items-center">
-                    <span className="text-slate-600 dark:text-slate-400 font-medium">Slippage</span>
-                    <div className="flex items-center gap-2">
-                      <div
-                        className={`w-3 h-3 rounded-full ${
-                          simulatedOrder.slippage > 0.1 ? "bg-red-500 animate-pulse" : "bg-green-500 animate-pulse"
-                        }`}
-                      />
-                      <span
-                        className={`font-mono font-bold text-lg ${
-                          simulatedOrder.slippage > 0.1 ? "text-red-600" : "text-green-600"
-                        }`}
-                      >
-                        {simulatedOrder.slippage.toFixed(4)}%
+                  <div className="group p-4 bg-white/60 dark:bg-slate-800/60 rounded-xl hover:shadow-lg transition-all duration-300 hover:scale-105 cursor-pointer">
+                    <div className="flex justify-between items-center">
+                      <span className="text-slate-600 dark:text-slate-400 font-medium">Market Impact</span>
+                      <span className="font-mono font-bold text-lg text-slate-900 dark:text-white">
+                        {simulatedOrder.marketImpact.toFixed(4)}%
                       </span>
                     </div>
                   </div>
                 </div>
 
-                {simulatedOrder.timeToFill && (
+                <div className="space-y-4">
                   <div className="group p-4 bg-white/60 dark:bg-slate-800/60 rounded-xl hover:shadow-lg transition-all duration-300 hover:scale-105 cursor-pointer">
                     <div className="flex justify-between items-center">
-                      <span className="text-slate-600 dark:text-slate-400 font-medium">Time to Fill</span>
-                      <span className="font-mono font-bold text-lg text-slate-900 dark:text-white">
-                        {simulatedOrder.timeToFill}s
-                      </span>
+                      <span className="text-slate-600 dark:text-slate-400 font-medium">Slippage</span>
+                      <div className="flex items-center gap-2">
+                        <div
+                          className={`w-3 h-3 rounded-full ${
+                            simulatedOrder.slippage > 0.1 ? "bg-red-500 animate-pulse" : "bg-green-500 animate-pulse"
+                          }`}
+                        />
+                        <span
+                          className={`font-mono font-bold text-lg ${
+                            simulatedOrder.slippage > 0.1 ? "text-red-600" : "text-green-600"
+                          }`}
+                        >
+                          {simulatedOrder.slippage.toFixed(4)}%
+                        </span>
+                      </div>
                     </div>
                   </div>
-                )}
+
+                  {simulatedOrder.timeToFill && (
+                    <div className="group p-4 bg-white/60 dark:bg-slate-800/60 rounded-xl hover:shadow-lg transition-all duration-300 hover:scale-105 cursor-pointer">
+                      <div className="flex justify-between items-center">
+                        <span className="text-slate-600 dark:text-slate-400 font-medium">Time to Fill</span>
+                        <span className="font-mono font-bold text-lg text-slate-900 dark:text-white">
+                          {simulatedOrder.timeToFill}s
+                        </span>
+                      </div>
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
+            )}
           </div>
         )}
       </CardContent>
     </Card>
   )
 }
+
+export default memo(OrderbookDisplay)
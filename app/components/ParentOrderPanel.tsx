@@ -0,0 +1,152 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import type { CostAmount, ExecutionCost, ParentOrderExecution } from "../types/orderbook"
+import { STRATEGY_LABELS, VOLUME_CURVE_LABELS } from "../lib/parentOrder"
+import { Layers } from "lucide-react"
+
+interface ParentOrderPanelProps {
+  execution: ParentOrderExecution
+  // The children's combined fill against the arrival mid, fees included
+  cost: ExecutionCost | null
+  now: number
+}
+
+function formatBps({ bps }: CostAmount) {
+  return `${bps > 0 ? "+" : ""}${bps.toFixed(2)} bps`
+}
+
+// Progress and outcome of a parent order worked as child sweeps: realized average against the arrival mid and against
+// sweeping the whole order at once, and each child's fill on a timeline
+export default function ParentOrderPanel({ execution, cost, now }: ParentOrderPanelProps) {
+  const { params, parent, children, filledQuantity, averagePrice, arrivalMid } = execution
+  const isRunning = execution.completedAt === undefined
+  const elapsedSeconds = Math.min(((execution.completedAt ?? now) - execution.startedAt) / 1000, params.horizonSeconds)
+  const direction = parent.side === "buy" ? 1 : -1
+  const sweepPrice = parent.averagePrice ?? 0
+  const versusSweep =
+    sweepPrice > 0 && averagePrice > 0 ? (direction * (averagePrice - sweepPrice) * 10000) / sweepPrice : null
+
+  const chartData = children.map((child) => ({
+    offset: child.offsetSeconds,
+    price: child.filledQuantity > 0 ? child.averagePrice : null,
+    mid: child.midPrice,
+    filled: child.filledQuantity,
+  }))
+
+  const detail =
+    params.strategy === "pov"
+      ? `${(params.participationRate * 100).toFixed(0)}% of volume`
+      : params.strategy === "vwap"
+        ? VOLUME_CURVE_LABELS[params.curve]
+        : `${params.slices} slices`
+
+  return (
+    <div className="p-4 bg-gradient-to-r from-slate-50/80 to-slate-100/80 dark:from-slate-800/50 dark:to-slate-700/50 rounded-xl backdrop-blur-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <h5 className="font-bold text-slate-900 dark:text-white flex items-center gap-2">
+          <Layers className={`w-4 h-4 text-blue-600 ${isRunning ? "animate-pulse" : ""}`} />
+          {STRATEGY_LABELS[params.strategy]} · {detail}
+        </h5>
+        <Badge variant="outline" className="text-xs">
+          {params.source === "replay"
+            ? "replay"
+            : isRunning
+              ? `${elapsedSeconds.toFixed(0)}s / ${params.horizonSeconds}s`
+              : "done"}
+        </Badge>
+      </div>
+
+      <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2 overflow-hidden">
+        <div
+          className="h-full rounded-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-300"
+          style={{ width: `${(filledQuantity / parent.quantity) * 100}%` }}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+        <span className="text-slate-600 dark:text-slate-400">Filled</span>
+        <span className="font-mono text-right">
+          {filledQuantity.toFixed(4)} / {parent.quantity.toFixed(4)}
+        </span>
+        <span className="text-slate-600 dark:text-slate-400">Children</span>
+        <span className="font-mono text-right">
+          {children.length} of {params.slices}
+        </span>
+        <span className="text-slate-600 dark:text-slate-400">Arrival mid</span>
+        <span className="font-mono text-right">${arrivalMid.toFixed(2)}</span>
+        <span className="text-slate-600 dark:text-slate-400">Realized avg</span>
+        <span className="font-mono text-right">{averagePrice > 0 ? `$${averagePrice.toFixed(2)}` : "—"}</span>
+        <span className="text-slate-600 dark:text-slate-400">Vs arrival mid</span>
+        <span className="font-mono text-right">{cost ? formatBps(cost.slippageVsMid) : "—"}</span>
+        <span className="text-slate-600 dark:text-slate-400">Shortfall with fees</span>
+        <span className="font-mono text-right">{cost ? formatBps(cost.implementationShortfall) : "—"}</span>
+        <span className="text-slate-600 dark:text-slate-400">Vs single sweep</span>
+        <span
+          className={`font-mono text-right ${
+            versusSweep === null ? "" : versusSweep > 0 ? "text-red-600" : "text-green-600"
+          }`}
+        >
+          {versusSweep === null ? "—" : `${versusSweep > 0 ? "+" : ""}${versusSweep.toFixed(2)} bps`}
+        </span>
+      </div>
+
+      {chartData.length > 0 && (
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 8, right: 0, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" opacity={0.5} />
+              <XAxis
+                dataKey="offset"
+                type="number"
+                domain={[0, params.horizonSeconds]}
+                tickFormatter={(value) => `${Number(value).toFixed(0)}s`}
+                stroke="#64748b"
+                fontSize={11}
+              />
+              <YAxis
+                yAxisId="price"
+                domain={["auto", "auto"]}
+                tickFormatter={(value) => Number(value).toFixed(2)}
+                stroke="#64748b"
+                fontSize={11}
+                width={64}
+              />
+              <YAxis yAxisId="quantity" orientation="right" stroke="#94a3b8" fontSize={11} width={40} />
+              <Tooltip
+                formatter={(value, name) => [
+                  typeof value === "number" ? value.toFixed(name === "Filled" ? 4 : 2) : String(value),
+                  name,
+                ]}
+                labelFormatter={(label) => `${Number(label).toFixed(1)}s`}
+              />
+              <Bar yAxisId="quantity" dataKey="filled" name="Filled" fill="rgba(59, 130, 246, 0.35)" barSize={8} />
+              <Line yAxisId="price" dataKey="mid" name="Mid" stroke="#94a3b8" strokeDasharray="4 3" dot={false} />
+              <Line
+                yAxisId="price"
+                dataKey="price"
+                name="Child avg"
+                stroke="#8b5cf6"
+                strokeWidth={2}
+                connectNulls
+                isAnimationActive={false}
+              />
+              <ReferenceLine yAxisId="price" y={arrivalMid} stroke="#f59e0b" strokeDasharray="6 4" />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  )
+}
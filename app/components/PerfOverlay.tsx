@@ -0,0 +1,64 @@
+"use client"
+
+import { useEffect, useState, type MutableRefObject } from "react"
+import { Gauge, X } from "lucide-react"
+import type { Throughput } from "../types/feed"
+
+const SAMPLE_INTERVAL_MS = 1000
+
+// Commits counted by the book views since the overlay last sampled them
+export interface RenderCounts {
+  ladder: number
+  chart: number
+}
+
+interface PerfOverlayProps {
+  // Feed counts the hook keeps current; read on each sample rather than passed down as state
+  throughputRef: MutableRefObject<Throughput>
+  renderCountsRef: MutableRefObject<RenderCounts>
+  updateRateLabel: string
+  onClose: () => void
+}
+
+export default function PerfOverlay({ throughputRef, renderCountsRef, updateRateLabel, onClose }: PerfOverlayProps) {
+  const [renderRates, setRenderRates] = useState<RenderCounts>({ ladder: 0, chart: 0 })
+  const [throughput, setThroughput] = useState<Throughput>(throughputRef.current)
+
+  useEffect(() => {
+    renderCountsRef.current = { ladder: 0, chart: 0 }
+    const interval = setInterval(() => {
+      setRenderRates(renderCountsRef.current)
+      setThroughput(throughputRef.current)
+      renderCountsRef.current = { ladder: 0, chart: 0 }
+    }, SAMPLE_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [renderCountsRef, throughputRef])
+
+  const rows = [
+    { label: "Messages/s", value: throughput.messagesPerSecond },
+    { label: "Snapshots/s", value: throughput.snapshotsPerSecond },
+    { label: "Ladder renders/s", value: renderRates.ladder },
+    { label: "Chart renders/s", value: renderRates.chart },
+  ]
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-56 p-3 rounded-lg shadow-xl bg-slate-900/90 text-white backdrop-blur-sm">
+      <div className="flex items-center gap-2 mb-2 text-xs font-bold">
+        <Gauge className="w-4 h-4" />
+        <span>Performance</span>
+        <span className="ml-auto font-normal text-slate-400">{updateRateLabel}</span>
+        <button onClick={onClose} className="text-slate-400 hover:text-white" title="Hide">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+      <div className="space-y-1 text-xs">
+        {rows.map((row) => (
+          <div key={row.label} className="flex justify-between">
+            <span className="text-slate-400">{row.label}</span>
+            <span className="font-mono">{row.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import type { Instrument, InstrumentSpec } from "../types/instrument"
+import type { Venue } from "../types/orderbook"
+import { describeInstrument, parseSymbol } from "../lib/instruments"
+import { toVenueSymbol } from "../venues"
+import { Check, ChevronsUpDown, Loader2 } from "lucide-react"
+
+interface SymbolPickerProps {
+  venue: Venue
+  symbol: string
+  onSymbolChange: (symbol: string) => void
+  instruments: InstrumentSpec[]
+  isLoading?: boolean
+}
+
+// Listed first, and used on their own until the live catalog has loaded
+const FEATURED_SYMBOLS = [
+  "BTC-USDT",
+  "ETH-USDT",
+  "BTC-USDT-PERP",
+  "ETH-USDT-PERP",
+  "BTC-USD-PERP",
+  "ETH-USD-PERP",
+  "BTC-USD",
+  "ETH-USD",
+  "SOL-USDT",
+  "ADA-USDT",
+  "DOT-USDT",
+  "LINK-USDT",
+  "AVAX-USDT",
+  "MATIC-USDT",
+  "UNI-USDT",
+  "ATOM-USDT",
+]
+
+const BASE_ICONS: Record<string, string> = {
+  BTC: "₿",
+  ETH: "Ξ",
+  SOL: "◎",
+  ADA: "₳",
+  DOT: "●",
+  LINK: "⬢",
+  AVAX: "▲",
+  MATIC: "⬟",
+  UNI: "🦄",
+  ATOM: "⚛",
+}
+
+const KIND_ORDER = { spot: 0, perp: 1, future: 2, option: 3 }
+
+interface SymbolOption {
+  symbol: string
+  instrument: Instrument
+  venueSymbol: string | null
+  spec: InstrumentSpec | null
+}
+
+export default function SymbolPicker({ venue, symbol, onSymbolChange, instruments, isLoading }: SymbolPickerProps) {
+  const [open, setOpen] = useState(false)
+
+  const { available, unavailable, selected } = useMemo(() => {
+    const venueSpecs = new Map(
+      instruments.filter((spec) => spec.venue === venue).map((spec) => [spec.symbol, spec] as const),
+    )
+    const instrumentsBySymbol = new Map<string, Instrument>()
+    for (const spec of instruments) {
+      instrumentsBySymbol.set(spec.symbol, spec.instrument)
+    }
+    for (const featured of [...FEATURED_SYMBOLS, symbol]) {
+      const instrument = parseSymbol(featured)
+      if (instrument && !instrumentsBySymbol.has(featured)) instrumentsBySymbol.set(featured, instrument)
+    }
+
+    // Without a catalog for this venue, fall back to what the naming rules say it could list
+    const hasCatalog = venueSpecs.size > 0
+    const options: SymbolOption[] = [...instrumentsBySymbol].map(([optionSymbol, instrument]) => {
+      const spec = venueSpecs.get(optionSymbol) ?? null
+      return {
+        symbol: optionSymbol,
+        instrument,
+        spec,
+        venueSymbol: hasCatalog ? (spec?.venueSymbol ?? null) : toVenueSymbol(venue, instrument),
+      }
+    })
+
+    const featuredRank = (option: SymbolOption) => {
+      const index = FEATURED_SYMBOLS.indexOf(option.symbol)
+      return index === -1 ? FEATURED_SYMBOLS.length : index
+    }
+    options.sort(
+      (a, b) =>
+        featuredRank(a) - featuredRank(b) ||
+        KIND_ORDER[a.instrument.kind] - KIND_ORDER[b.instrument.kind] ||
+        a.symbol.localeCompare(b.symbol),
+    )
+
+    return {
+      available: options.filter((option) => option.venueSymbol),
+      unavailable: options.filter((option) => !option.venueSymbol),
+      selected: options.find((option) => option.symbol === symbol) ?? null,
+    }
+  }, [instruments, venue, symbol])
+
+  const renderOption = (option: SymbolOption) => (
+    <CommandItem
+      key={option.symbol}
+      value={`${option.symbol} ${option.venueSymbol ?? ""} ${describeInstrument(option.instrument)}`}
+      disabled={!option.venueSymbol}
+      onSelect={() => {
+        onSymbolChange(option.symbol)
+        setOpen(false)
+      }}
+    >
+      <div className="flex items-center gap-3 py-1 w-full">
+        <span className="text-lg w-5 text-center">{BASE_ICONS[option.instrument.base] ?? "•"}</span>
+        <div className="flex-1">
+          <div className="font-mono font-bold">{option.symbol}</div>
+          <div className="text-xs text-slate-500">
+            {describeInstrument(option.instrument)} ·{" "}
+            {option.venueSymbol ? `${venue}: ${option.venueSymbol}` : `Unavailable on ${venue}`}
+          </div>
+        </div>
+        {option.symbol === symbol && <Check className="w-4 h-4 text-blue-600" />}
+      </div>
+    </CommandItem>
+  )
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm hover:bg-white dark:hover:bg-slate-800 transition-all duration-200 hover:scale-105"
+          >
+            <span className="flex items-center gap-2 font-mono font-bold">
+              {selected && <span className="text-lg">{BASE_ICONS[selected.instrument.base] ?? "•"}</span>}
+              {symbol}
+            </span>
+            {isLoading ? (
+              <Loader2 className="w-4 h-4 opacity-50 animate-spin" />
+            ) : (
+              <ChevronsUpDown className="w-4 h-4 opacity-50" />
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[var(--radix-popover-trigger-width)] min-w-[320px] p-0" align="start">
+          <Command className="bg-white/95 dark:bg-slate-800/95 backdrop-blur-xl">
+            <CommandInput placeholder="Search symbols..." />
+            <CommandList>
+              <CommandEmpty>No matching instruments.</CommandEmpty>
+              <CommandGroup heading={`Available on ${venue}`}>{available.map(renderOption)}</CommandGroup>
+              {unavailable.length > 0 && (
+                <CommandGroup heading={`Unavailable on ${venue}`}>{unavailable.map(renderOption)}</CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {selected?.spec ? (
+        <div className="flex justify-between text-xs text-slate-500 font-mono">
+          <span>Tick {selected.spec.tickSize}</span>
+          <span>Lot {selected.spec.lotSize}</span>
+          <span>Min {selected.spec.minSize}</span>
+          {selected.spec.contractMultiplier !== 1 && <span>×{selected.spec.contractMultiplier}</span>}
+        </div>
+      ) : (
+        selected &&
+        !selected.venueSymbol && (
+          <div className="text-xs text-red-600">
+            {symbol} is not listed on {venue}
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import type { TriggerLogEntry, TriggerOrder } from "../types/orderbook"
+import { describeTrigger } from "../lib/triggerOrders"
+import { Crosshair, X } from "lucide-react"
+
+interface TriggerOrdersPanelProps {
+  triggers: TriggerOrder[]
+  log: TriggerLogEntry[]
+  onCancel: (id: number) => void
+}
+
+function describeResult({ order }: TriggerLogEntry) {
+  if (order.rejectionReason) return `Rejected: ${order.rejectionReason}`
+  const filled = order.immediateFill?.quantity ?? (order.quantity * order.estimatedFill) / 100
+  const parts = [
+    filled > 0
+      ? `Filled ${filled.toFixed(4)} @ $${(order.immediateFill?.averagePrice ?? order.averagePrice ?? 0).toFixed(2)}`
+      : "Nothing filled",
+  ]
+  if ((order.restingQuantity ?? 0) > 0) parts.push(`${order.restingQuantity!.toFixed(4)} resting`)
+  if ((order.cancelledQuantity ?? 0) > 0) parts.push(`${order.cancelledQuantity!.toFixed(4)} cancelled`)
+  return parts.join(", ")
+}
+
+// Trigger orders still waiting on the feed, then the most recent ones to fire with what they got from the book
+export default function TriggerOrdersPanel({ triggers, log, onCancel }: TriggerOrdersPanelProps) {
+  if (triggers.length === 0 && log.length === 0) return null
+
+  return (
+    <div className="p-4 bg-gradient-to-r from-purple-50/80 to-slate-50/80 dark:from-purple-900/20 dark:to-slate-800/50 rounded-xl backdrop-blur-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <h5 className="font-bold text-slate-900 dark:text-white flex items-center gap-2">
+          <Crosshair className="w-4 h-4 text-purple-600" />
+          Trigger Orders
+        </h5>
+        <Badge variant="outline" className="text-xs">
+          {triggers.length} armed
+        </Badge>
+      </div>
+
+      {triggers.map((trigger) => (
+        <div key={trigger.id} className="flex items-center gap-2 text-xs">
+          <div className="w-2 h-2 rounded-full bg-purple-500 animate-pulse" />
+          <span className="flex-1 font-mono text-slate-700 dark:text-slate-300">{describeTrigger(trigger)}</span>
+          <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => onCancel(trigger.id)}>
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+
+      {log.length > 0 && (
+        <div className="pt-3 border-t border-slate-200 dark:border-slate-700 space-y-2">
+          {log.map((entry) => (
+            <div key={entry.trigger.id} className="text-xs">
+              <div className="flex justify-between gap-2">
+                <span className="font-mono text-slate-700 dark:text-slate-300">{describeTrigger(entry.trigger)}</span>
+                <span className="text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                  {new Date(entry.triggeredAt).toLocaleTimeString()}
+                </span>
+              </div>
+              <div className="text-slate-500 dark:text-slate-400">
+                Triggered at {entry.trigger.priceSource} ${entry.referencePrice.toFixed(2)} · {describeResult(entry)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
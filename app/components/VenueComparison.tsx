@@ -0,0 +1,192 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import type { InstrumentSpec } from "../types/instrument"
+import type { OrderbookData, TriggerOrder, Venue } from "../types/orderbook"
+import { useMultiVenueOrderbooks } from "../hooks/useMultiVenueOrderbooks"
+import type { VenueBook } from "../lib/consolidatedBook"
+import { DEPTH_BANDS_BPS, compareVenues } from "../lib/venueComparison"
+import { groupOrderbook, resolveGroupingStep, type PriceGrouping } from "../lib/priceGrouping"
+import type { UpdateRate } from "../lib/updateScheduler"
+import { VENUE_COLORS } from "../lib/venueColors"
+import { VENUES } from "../venues"
+import OrderbookDisplay from "./OrderbookDisplay"
+import MarketDepthChart from "./MarketDepthChart"
+import { Columns3 } from "lucide-react"
+
+const MIN_VENUES = 2
+const MAX_VENUES = 4
+const DEFAULT_VENUES: Venue[] = ["OKX", "Bybit", "Binance"]
+// Shared so the memoised ladder and chart are not re-rendered for a new empty list
+const NO_TRIGGERS: TriggerOrder[] = []
+
+interface VenueComparisonProps {
+  symbol: string
+  instruments: InstrumentSpec[]
+  priceGrouping: PriceGrouping
+  updateRate: UpdateRate
+  staleAfterMs: number
+}
+
+function formatSize(value: number) {
+  return value >= 1000 ? value.toFixed(0) : value.toFixed(3)
+}
+
+// Two to four venues' ladders and depth curves for the same symbol side by side, above a table of spread, top-of-book
+// size, depth near the mid and how far each venue's mid sits from the median
+export default function VenueComparison({
+  symbol,
+  instruments,
+  priceGrouping,
+  updateRate,
+  staleAfterMs,
+}: VenueComparisonProps) {
+  const [selectedVenues, setSelectedVenues] = useState<Venue[]>(DEFAULT_VENUES)
+  const { feeds, specs } = useMultiVenueOrderbooks(selectedVenues, symbol, instruments, { updateRate, staleAfterMs })
+
+  const toggleVenue = (venue: Venue) => {
+    setSelectedVenues((venues) =>
+      venues.includes(venue)
+        ? venues.filter((selected) => selected !== venue)
+        : VENUES.filter((candidate) => candidate === venue || venues.includes(candidate)),
+    )
+  }
+
+  const books = useMemo(
+    () =>
+      selectedVenues.flatMap((venue): VenueBook[] => {
+        const data = feeds[venue]?.orderbookData
+        return data ? [{ data, spec: specs.get(venue) ?? null }] : []
+      }),
+    [selectedVenues, feeds, specs],
+  )
+  const metrics = useMemo(() => compareVenues(books), [books])
+
+  // Each ladder is grouped against its own mid and tick, as in the single-venue view
+  const groupedBooks = useMemo(() => {
+    const grouped = new Map<Venue, OrderbookData>()
+    for (const { data, spec } of books) {
+      const mid = ((data.bids[0]?.price ?? 0) + (data.asks[0]?.price ?? 0)) / 2
+      grouped.set(data.venue, groupOrderbook(data, resolveGroupingStep(priceGrouping, mid, spec?.tickSize)))
+    }
+    return grouped
+  }, [books, priceGrouping])
+
+  return (
+    <Card className="shadow-2xl border-0 bg-gradient-to-br from-white/80 to-slate-50/80 dark:from-slate-800/80 dark:to-slate-900/80 backdrop-blur-xl">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2">
+          <Columns3 className="w-5 h-5 text-blue-600" />
+          <span className="text-lg">Venue Comparison</span>
+          <Badge variant="outline">{symbol}</Badge>
+          <div className="flex flex-wrap items-center gap-2 ml-auto">
+            {VENUES.map((venue) => {
+              const isSelected = selectedVenues.includes(venue)
+              const isLocked = isSelected ? selectedVenues.length <= MIN_VENUES : selectedVenues.length >= MAX_VENUES
+              return (
+                <Button
+                  key={venue}
+                  variant={isSelected ? "secondary" : "ghost"}
+                  size="sm"
+                  disabled={isLocked}
+                  onClick={() => toggleVenue(venue)}
+                  title={`Compare ${MIN_VENUES} to ${MAX_VENUES} venues`}
+                  className="h-8 gap-2 text-xs font-normal"
+                >
+                  <span
+                    className="w-2 h-2 rounded-full"
+                    style={{ backgroundColor: isSelected ? VENUE_COLORS[venue] : "transparent" }}
+                  />
+                  {venue}
+                </Button>
+              )
+            })}
+          </div>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs uppercase tracking-wider text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                <th className="py-2 pr-4 text-left">Venue</th>
+                <th className="py-2 pr-4 text-right">Mid</th>
+                <th className="py-2 pr-4 text-right">Spread</th>
+                <th className="py-2 pr-4 text-right">Top bid / ask</th>
+                {DEPTH_BANDS_BPS.map((bps) => (
+                  <th key={bps} className="py-2 pr-4 text-right">
+                    ±{bps} bps bid / ask
+                  </th>
+                ))}
+                <th className="py-2 text-right">Mid vs median</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {metrics.map((row) => (
+                <tr key={row.venue} className="border-b border-slate-100 dark:border-slate-800">
+                  <td className="py-2 pr-4 font-sans font-medium">
+                    <span className="inline-flex items-center gap-2">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: VENUE_COLORS[row.venue] }} />
+                      {row.venue}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 text-right">${row.mid.toFixed(2)}</td>
+                  <td className="py-2 pr-4 text-right">
+                    ${row.spread.toFixed(2)}{" "}
+                    <span className="text-xs text-slate-500">({row.spreadBps.toFixed(2)} bps)</span>
+                  </td>
+                  <td className="py-2 pr-4 text-right">
+                    {formatSize(row.topBidSize)} / {formatSize(row.topAskSize)}
+                  </td>
+                  {DEPTH_BANDS_BPS.map((bps) => (
+                    <td key={bps} className="py-2 pr-4 text-right">
+                      {formatSize(row.depthWithin[bps].bid)} / {formatSize(row.depthWithin[bps].ask)}
+                    </td>
+                  ))}
+                  <td
+                    className={`py-2 text-right ${
+                      Math.abs(row.midDeviationBps) >= 5 ? "text-amber-600 dark:text-amber-400" : ""
+                    }`}
+                  >
+                    {row.midDeviationBps >= 0 ? "+" : ""}
+                    {row.midDeviationBps.toFixed(2)} bps
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {metrics.length === 0 && (
+            <div className="py-6 text-center text-slate-500 dark:text-slate-400">Waiting for {symbol} books...</div>
+          )}
+          <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">Sizes in base units</p>
+        </div>
+
+        <div className="grid gap-6" style={{ gridTemplateColumns: `repeat(${selectedVenues.length}, minmax(0, 1fr))` }}>
+          {selectedVenues.map((venue) => {
+            const feed = feeds[venue]
+            const data = groupedBooks.get(venue) ?? null
+            return (
+              <div key={venue} className="space-y-6 min-w-0">
+                {feed?.error && <p className="text-sm text-amber-600 dark:text-amber-400">{feed.error}</p>}
+                <OrderbookDisplay
+                  venue={venue}
+                  symbol={symbol}
+                  orderbookData={data}
+                  simulatedOrder={null}
+                  triggers={NO_TRIGGERS}
+                  isConnected={feed?.connectionState === "open"}
+                  isStale={feed?.isStale}
+                />
+                <MarketDepthChart orderbookData={data} simulatedOrder={null} triggers={NO_TRIGGERS} />
+              </div>
+            )
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
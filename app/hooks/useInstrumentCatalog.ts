@@ -0,0 +1,68 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import type { Venue } from "../types/orderbook"
+import { CATALOG_TTL_MS, loadCachedCatalog, saveCachedCatalog, type InstrumentCatalog } from "../lib/instrumentCatalog"
+import { getVenueAdapter } from "../venues"
+
+export function useInstrumentCatalog(venues: Venue[]) {
+  const [catalog, setCatalog] = useState<InstrumentCatalog>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [errors, setErrors] = useState<Partial<Record<Venue, string>>>({})
+
+  // Refetches every venue whose cached list is older than the TTL, or all of them when forced
+  const refresh = useCallback(
+    async (force = false) => {
+      const cached = loadCachedCatalog()
+      const now = Date.now()
+      const due = venues.filter((venue) => force || !cached[venue] || now - cached[venue]!.fetchedAt > CATALOG_TTL_MS)
+      if (due.length === 0) return
+
+      setIsLoading(true)
+      const results = await Promise.allSettled(due.map((venue) => getVenueAdapter(venue).fetchInstruments()))
+      const next: InstrumentCatalog = { ...loadCachedCatalog() }
+      const nextErrors: Partial<Record<Venue, string>> = {}
+
+      results.forEach((result, index) => {
+        const venue = due[index]
+        if (result.status === "fulfilled" && result.value.length > 0) {
+          next[venue] = { fetchedAt: Date.now(), instruments: result.value }
+        } else {
+          // A failed refresh keeps whatever was cached before
+          const reason = result.status === "rejected" ? String(result.reason) : "no instruments returned"
+          console.error(`Failed to load ${venue} instruments:`, reason)
+          nextErrors[venue] = reason
+        }
+      })
+
+      saveCachedCatalog(next)
+      setCatalog(next)
+      setErrors(nextErrors)
+      setIsLoading(false)
+    },
+    [venues],
+  )
+
+  useEffect(() => {
+    setCatalog(loadCachedCatalog())
+    refresh()
+
+    const interval = setInterval(() => refresh(true), CATALOG_TTL_MS)
+    return () => clearInterval(interval)
+  }, [refresh])
+
+  const instruments = useMemo(() => venues.flatMap((venue) => catalog[venue]?.instruments ?? []), [venues, catalog])
+
+  const lastUpdated = useMemo(
+    () => Math.max(0, ...venues.map((venue) => catalog[venue]?.fetchedAt ?? 0)) || null,
+    [venues, catalog],
+  )
+
+  return {
+    instruments,
+    isLoading,
+    errors,
+    lastUpdated,
+    refresh,
+  }
+}
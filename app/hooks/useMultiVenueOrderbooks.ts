@@ -0,0 +1,170 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import type { ConnectionState, OrderbookData, Venue } from "../types/orderbook"
+import type { FeedCommand, FeedWorkerMessage } from "../types/feed"
+import type { InstrumentSpec } from "../types/instrument"
+import { findInstrumentSpec } from "../lib/instrumentCatalog"
+import { parseSymbol } from "../lib/instruments"
+import { createUpdateScheduler, toSnapshotFps, type UpdateRate, type UpdateScheduler } from "../lib/updateScheduler"
+import { shareOrderbookData } from "../lib/structuralSharing"
+import { getVenueAdapter } from "../venues"
+import { DEFAULT_STALE_AFTER_MS, DEFAULT_UPDATE_RATE } from "./useOrderbookData"
+
+export interface VenueFeedState {
+  orderbookData: OrderbookData | null
+  connectionState: ConnectionState
+  // Set while the venue's local book is known to be wrong and a fresh snapshot has been requested
+  isStale: boolean
+  error: string | null
+}
+
+const INITIAL_FEED_STATE: VenueFeedState = { orderbookData: null, connectionState: "idle", isStale: false, error: null }
+
+export interface MultiVenueFeedOptions {
+  staleAfterMs?: number
+  updateRate?: UpdateRate
+}
+
+// Runs one feed worker per venue for the same canonical symbol, each at the venue's default depth. Book changes from
+// all venues are flushed to state together.
+export function useMultiVenueOrderbooks(
+  venues: Venue[],
+  symbol: string,
+  instruments: InstrumentSpec[],
+  options: MultiVenueFeedOptions = {},
+) {
+  const [feeds, setFeeds] = useState<Partial<Record<Venue, VenueFeedState>>>({})
+  const workersRef = useRef(new Map<Venue, Worker>())
+  const pendingBooksRef = useRef(new Map<Venue, OrderbookData>())
+  const schedulerRef = useRef<UpdateScheduler | null>(null)
+  const updateRate = options.updateRate ?? DEFAULT_UPDATE_RATE
+  const staleAfterMs = options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS
+  // Venue lists are usually rebuilt on every render, so feeds are keyed on their contents
+  const venueKey = venues.join(",")
+  const feedVenues = useMemo(() => (venueKey ? (venueKey.split(",") as Venue[]) : []), [venueKey])
+
+  const specs = useMemo(
+    () => new Map(feedVenues.map((venue) => [venue, findInstrumentSpec(instruments, venue, symbol)])),
+    [feedVenues, instruments, symbol],
+  )
+  const settingsRef = useRef({ specs, staleAfterMs, updateRate })
+  settingsRef.current = { specs, staleAfterMs, updateRate }
+
+  useEffect(() => {
+    const scheduler = createUpdateScheduler(settingsRef.current.updateRate, () => {
+      const pending = new Map(pendingBooksRef.current)
+      pendingBooksRef.current.clear()
+      if (pending.size === 0) return
+      setFeeds((previous) => {
+        const next = { ...previous }
+        pending.forEach((data, venue) => {
+          const feed = previous[venue] ?? INITIAL_FEED_STATE
+          next[venue] = { ...feed, orderbookData: shareOrderbookData(feed.orderbookData, data) }
+        })
+        return next
+      })
+    })
+    schedulerRef.current = scheduler
+
+    return () => {
+      scheduler.cancel()
+      schedulerRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    schedulerRef.current?.setRate(updateRate)
+  }, [updateRate])
+
+  // A new symbol needs new sessions on every venue; adding or removing a venue only starts or stops that venue's
+  // worker, so the other books keep streaming
+  const feedSymbolRef = useRef(symbol)
+  useEffect(() => {
+    const workers = workersRef.current
+    const pendingBooks = pendingBooksRef.current
+    if (feedSymbolRef.current !== symbol) {
+      workers.forEach((worker) => worker.terminate())
+      workers.clear()
+      pendingBooks.clear()
+      setFeeds({})
+      feedSymbolRef.current = symbol
+    }
+
+    workers.forEach((worker, venue) => {
+      if (feedVenues.includes(venue)) return
+      worker.terminate()
+      workers.delete(venue)
+      pendingBooks.delete(venue)
+    })
+    setFeeds((previous) =>
+      Object.fromEntries(feedVenues.map((venue) => [venue, previous[venue] ?? INITIAL_FEED_STATE])),
+    )
+
+    const instrument = parseSymbol(symbol)
+    for (const venue of feedVenues) {
+      if (workers.has(venue)) continue
+      const adapter = getVenueAdapter(venue)
+      const depth = instrument ? (adapter.getDepthOptions(instrument)[0] ?? Infinity) : Infinity
+      const { specs, staleAfterMs, updateRate } = settingsRef.current
+
+      // Each worker runs a single session for its whole life; messages still queued when it is stopped are dropped
+      const worker = new Worker(new URL("../workers/orderbookFeed.worker.ts", import.meta.url))
+      const updateFeed = (update: Partial<VenueFeedState>) =>
+        setFeeds((previous) => ({ ...previous, [venue]: { ...(previous[venue] ?? INITIAL_FEED_STATE), ...update } }))
+      worker.onmessage = (event: MessageEvent<FeedWorkerMessage>) => {
+        if (workersRef.current.get(venue) !== worker) return
+        const message = event.data
+        switch (message.type) {
+          case "connection":
+            updateFeed({ connectionState: message.state })
+            break
+          case "error":
+            updateFeed({ error: message.message })
+            break
+          case "resyncing":
+            updateFeed({ isStale: message.resyncing })
+            break
+          case "book":
+            pendingBooksRef.current.set(venue, message.data)
+            schedulerRef.current?.schedule()
+            break
+        }
+      }
+      const command: FeedCommand = {
+        type: "connect",
+        sessionId: 0,
+        config: {
+          venue,
+          symbol,
+          depth,
+          instrumentSpec: specs.get(venue) ?? null,
+          staleAfterMs,
+          snapshotFps: toSnapshotFps(updateRate),
+        },
+      }
+      worker.postMessage(command)
+      workers.set(venue, worker)
+    }
+  }, [feedVenues, symbol])
+
+  useEffect(() => {
+    const workers = workersRef.current
+    return () => {
+      workers.forEach((worker) => worker.terminate())
+      workers.clear()
+    }
+  }, [])
+
+  useEffect(() => {
+    workersRef.current.forEach((worker, venue) => {
+      const command: FeedCommand = {
+        type: "configure",
+        settings: { instrumentSpec: specs.get(venue) ?? null, staleAfterMs, snapshotFps: toSnapshotFps(updateRate) },
+      }
+      worker.postMessage(command)
+    })
+  }, [specs, staleAfterMs, updateRate])
+
+  return { feeds, specs }
+}
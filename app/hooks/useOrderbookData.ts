@@ -1,218 +1,249 @@
 "use client"
 
-import { useState, useEffect, useRef, useCallback } from "react"
-import type { OrderbookData, Venue } from "../types/orderbook"
+import { useState, useEffect, useRef, useCallback, useMemo } from "react"
+import type { ConnectionState, OrderbookData, PriceTicker, SequenceGapEvent, Venue } from "../types/orderbook"
+import type { FeedCommand, FeedSettings, FeedWorkerMessage, Throughput } from "../types/feed"
+import type { InstrumentSpec } from "../types/instrument"
+import { parseSymbol } from "../lib/instruments"
+import { DEFAULT_RECONNECT_POLICY } from "../lib/backoff"
+import { createUpdateScheduler, toSnapshotFps, type UpdateRate, type UpdateScheduler } from "../lib/updateScheduler"
+import { shareOrderbookData } from "../lib/structuralSharing"
+import { getVenueAdapter } from "../venues"
+
+// Gap events are kept across venue switches so feeds can be compared, up to this many
+const MAX_GAP_EVENTS = 200
+
+export const DEFAULT_STALE_AFTER_MS = 10000
+export const DEFAULT_UPDATE_RATE: UpdateRate = 10
+
+export interface OrderbookFeedOptions {
+  // How long an open connection may go without a book update before the feed is flagged as stale
+  staleAfterMs?: number
+  // Levels per side to subscribe to; must be one of the venue's depth options, otherwise its default is used
+  depth?: number
+  // How often book changes reach React state: once per display frame or at most this many times a second
+  updateRate?: UpdateRate
+}
 
-export function useOrderbookData(venue: Venue, symbol: string) {
+// The socket, message parsing and the local book live in a worker (see lib/feedSession); this hook drives it and
+// mirrors its events into React state
+export function useOrderbookData(
+  venue: Venue,
+  symbol: string,
+  instrumentSpec: InstrumentSpec | null = null,
+  options: OrderbookFeedOptions = {},
+) {
   const [orderbookData, setOrderbookData] = useState<OrderbookData | null>(null)
-  const [isConnected, setIsConnected] = useState(false)
+  // Last trade and mark price for the same venue and symbol, where the venue streams them
+  const [ticker, setTicker] = useState<PriceTicker | null>(null)
+  const [connectionState, setConnectionState] = useState<ConnectionState>("idle")
+  // When the next reconnect attempt is due, while backing off
+  const [nextRetryAt, setNextRetryAt] = useState<number | null>(null)
+  const [retryAttempt, setRetryAttempt] = useState(0)
   const [error, setError] = useState<string | null>(null)
-  const wsRef = useRef<WebSocket | null>(null)
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null)
-
-  const getWebSocketUrl = useCallback((venue: Venue, symbol: string) => {
-    switch (venue) {
-      case "OKX":
-        return "wss://ws.okx.com:8443/ws/v5/public"
-      case "Bybit":
-        return "wss://stream.bybit.com/v5/public/linear"
-      case "Deribit":
-        return "wss://www.deribit.com/ws/api/v2"
-      default:
-        return ""
-    }
+  // Set while the local book is known to be wrong and a fresh snapshot has been requested
+  const [isStale, setIsStale] = useState(false)
+  const [checksumFailures, setChecksumFailures] = useState(0)
+  const [checksumVerified, setChecksumVerified] = useState(false)
+  const [gapEvents, setGapEvents] = useState<SequenceGapEvent[]>([])
+  // Set by the watchdog while the connection is open but no book update has arrived within the window
+  const [isFeedStale, setIsFeedStale] = useState(false)
+  const [lastUpdateAt, setLastUpdateAt] = useState<number | null>(null)
+  // Latest worker counts, kept out of state so they cost a render only where something samples them
+  const throughputRef = useRef<Throughput>({ messagesPerSecond: 0, snapshotsPerSecond: 0 })
+  const workerRef = useRef<Worker | null>(null)
+  // The feed events are currently accepted from; anything tagged with an older session is dropped
+  const sessionRef = useRef<{ id: number; venue: Venue; symbol: string } | null>(null)
+  const lastSessionIdRef = useRef(0)
+  // The newest book from the worker, held until the scheduler flushes it
+  const pendingBookRef = useRef<{ data: OrderbookData; lastUpdateAt: number } | null>(null)
+  const schedulerRef = useRef<UpdateScheduler | null>(null)
+  const updateRate = options.updateRate ?? DEFAULT_UPDATE_RATE
+
+  const adapter = getVenueAdapter(venue)
+  // The UI works in canonical symbols; each venue gets its own instrument name
+  const instrument = useMemo(() => parseSymbol(symbol), [symbol])
+  const venueSymbol = useMemo(() => (instrument ? adapter.toVenueSymbol(instrument) : null), [adapter, instrument])
+  const depthOptions = useMemo(() => (instrument ? adapter.getDepthOptions(instrument) : []), [adapter, instrument])
+  const depth =
+    options.depth !== undefined && depthOptions.includes(options.depth) ? options.depth : (depthOptions[0] ?? Infinity)
+
+  // Handed to the running feed as they change, so the catalog finishing its load or a new stale window or frame
+  // rate does not force a reconnect
+  const settings = useMemo<FeedSettings>(
+    () => ({
+      instrumentSpec,
+      staleAfterMs: options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS,
+      snapshotFps: toSnapshotFps(updateRate),
+    }),
+    [instrumentSpec, options.staleAfterMs, updateRate],
+  )
+  const settingsRef = useRef(settings)
+  settingsRef.current = settings
+
+  const postCommand = useCallback((command: FeedCommand) => {
+    workerRef.current?.postMessage(command)
   }, [])
 
-  const getSubscriptionMessage = useCallback((venue: Venue, symbol: string) => {
-    const normalizedSymbol = symbol.replace("-", "").toLowerCase()
-
-    switch (venue) {
-      case "OKX":
-        return {
-          op: "subscribe",
-          args: [
-            {
-              channel: "books",
-              instId: symbol,
-            },
-          ],
-        }
-      case "Bybit":
-        return {
-          op: "subscribe",
-          args: [`orderbook.50.${symbol}`],
+  const handleFeedMessage = useCallback((message: FeedWorkerMessage) => {
+    const session = sessionRef.current
+    if (!session || message.sessionId !== session.id) return
+
+    switch (message.type) {
+      case "connection":
+        setConnectionState(message.state)
+        setNextRetryAt(message.nextRetryAt)
+        setRetryAttempt(message.retryAttempt)
+        break
+      case "error":
+        setError(message.message)
+        break
+      case "book":
+        pendingBookRef.current = { data: message.data, lastUpdateAt: message.lastUpdateAt }
+        schedulerRef.current?.schedule()
+        break
+      case "ticker":
+        setTicker(message.ticker)
+        break
+      case "resyncing":
+        setIsStale(message.resyncing)
+        break
+      case "feed-stale":
+        setIsFeedStale(message.stale)
+        break
+      case "checksum":
+        if (message.ok) {
+          setChecksumVerified(true)
+        } else {
+          setChecksumFailures((count) => count + 1)
         }
-      case "Deribit":
-        return {
-          jsonrpc: "2.0",
-          method: "public/subscribe",
-          id: 1,
-          params: {
-            channels: [`book.${symbol}.100ms`],
-          },
+        break
+      case "gap":
+        setGapEvents((events) => [...events, message.gap].slice(-MAX_GAP_EVENTS))
+        break
+      case "gap-recovered": {
+        const isOpenGap = (event: SequenceGapEvent) =>
+          event.venue === session.venue && event.symbol === session.symbol && !event.recoveredAt
+        setGapEvents((events) =>
+          events.some(isOpenGap)
+            ? events.map((event) => (isOpenGap(event) ? { ...event, recoveredAt: message.recoveredAt } : event))
+            : events,
+        )
+        break
+      }
+      case "throughput":
+        throughputRef.current = {
+          messagesPerSecond: message.messagesPerSecond,
+          snapshotsPerSecond: message.snapshotsPerSecond,
         }
-      default:
-        return {}
+        break
     }
   }, [])
 
-  const parseOrderbookData = useCallback((venue: Venue, data: any): OrderbookData | null => {
-    try {
-      switch (venue) {
-        case "OKX":
-          if (data.data && data.data[0]) {
-            const book = data.data[0]
-            return {
-              bids: book.bids
-                .map(([price, quantity]: [string, string]) => ({
-                  price: Number.parseFloat(price),
-                  quantity: Number.parseFloat(quantity),
-                }))
-                .slice(0, 15),
-              asks: book.asks
-                .map(([price, quantity]: [string, string]) => ({
-                  price: Number.parseFloat(price),
-                  quantity: Number.parseFloat(quantity),
-                }))
-                .slice(0, 15),
-              timestamp: Number.parseInt(book.ts),
-              symbol: book.instId,
-              venue: "OKX",
-            }
-          }
-          break
-        case "Bybit":
-          if (data.data) {
-            return {
-              bids: data.data.b
-                .map(([price, quantity]: [string, string]) => ({
-                  price: Number.parseFloat(price),
-                  quantity: Number.parseFloat(quantity),
-                }))
-                .slice(0, 15),
-              asks: data.data.a
-                .map(([price, quantity]: [string, string]) => ({
-                  price: Number.parseFloat(price),
-                  quantity: Number.parseFloat(quantity),
-                }))
-                .slice(0, 15),
-              timestamp: data.ts,
-              symbol: data.data.s,
-              venue: "Bybit",
-            }
-          }
-          break
-        case "Deribit":
-          if (data.params && data.params.data) {
-            const book = data.params.data
-            return {
-              bids: book.bids
-                .map(([price, quantity]: [number, number]) => ({
-                  price,
-                  quantity,
-                }))
-                .slice(0, 15),
-              asks: book.asks
-                .map(([price, quantity]: [number, number]) => ({
-                  price,
-                  quantity,
-                }))
-                .slice(0, 15),
-              timestamp: book.timestamp,
-              symbol: book.instrument_name,
-              venue: "Deribit",
-            }
-          }
-          break
-      }
-      return null
-    } catch (err) {
-      console.error("Error parsing orderbook data:", err)
-      return null
-    }
-  }, [])
+  const updateRateRef = useRef(updateRate)
+  updateRateRef.current = updateRate
 
-  const connect = useCallback(() => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.close()
-    }
+  useEffect(() => {
+    const scheduler = createUpdateScheduler(updateRateRef.current, () => {
+      const pending = pendingBookRef.current
+      if (!pending) return
+      pendingBookRef.current = null
+      setLastUpdateAt(pending.lastUpdateAt)
+      setOrderbookData((previous) => shareOrderbookData(previous, pending.data))
+    })
+    schedulerRef.current = scheduler
 
-    const wsUrl = getWebSocketUrl(venue, symbol)
-    if (!wsUrl) {
-      setError(`WebSocket URL not available for ${venue}`)
-      return
+    return () => {
+      scheduler.cancel()
+      schedulerRef.current = null
     }
+  }, [])
 
-    try {
-      const ws = new WebSocket(wsUrl)
-      wsRef.current = ws
-
-      ws.onopen = () => {
-        console.log(`Connected to ${venue} WebSocket`)
-        setIsConnected(true)
-        setError(null)
-
-        const subscriptionMessage = getSubscriptionMessage(venue, symbol)
-        ws.send(JSON.stringify(subscriptionMessage))
-      }
-
-      ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data)
-          const parsedData = parseOrderbookData(venue, data)
-          if (parsedData) {
-            setOrderbookData(parsedData)
-          }
-        } catch (err) {
-          console.error("Error parsing WebSocket message:", err)
-        }
-      }
-
-      ws.onerror = (error) => {
-        console.error(`${venue} WebSocket error:`, error)
-        setError(`WebSocket connection error for ${venue}`)
-        setIsConnected(false)
-      }
+  useEffect(() => {
+    schedulerRef.current?.setRate(updateRate)
+  }, [updateRate])
 
-      ws.onclose = () => {
-        console.log(`${venue} WebSocket connection closed`)
-        setIsConnected(false)
+  useEffect(() => {
+    const worker = new Worker(new URL("../workers/orderbookFeed.worker.ts", import.meta.url))
+    worker.onmessage = (event: MessageEvent<FeedWorkerMessage>) => handleFeedMessage(event.data)
+    workerRef.current = worker
 
-        // Auto-reconnect after 5 seconds
-        reconnectTimeoutRef.current = setTimeout(() => {
-          connect()
-        }, 5000)
-      }
-    } catch (err) {
-      setError(`Failed to connect to ${venue}: ${err}`)
-      setIsConnected(false)
+    return () => {
+      worker.terminate()
+      workerRef.current = null
     }
-  }, [venue, symbol, getWebSocketUrl, getSubscriptionMessage, parseOrderbookData])
+  }, [handleFeedMessage])
 
+  // Starts a new session in the worker, which replaces whatever feed it was running
+  const connect = useCallback(() => {
+    const id = lastSessionIdRef.current + 1
+    lastSessionIdRef.current = id
+    sessionRef.current = { id, venue, symbol }
+    pendingBookRef.current = null
+    throughputRef.current = { messagesPerSecond: 0, snapshotsPerSecond: 0 }
+    setNextRetryAt(null)
+    setIsFeedStale(false)
+    setTicker(null)
+    if (!venueSymbol) setOrderbookData(null)
+
+    postCommand({ type: "connect", sessionId: id, config: { ...settingsRef.current, venue, symbol, depth } })
+  }, [venue, symbol, venueSymbol, depth, postCommand])
+
+  const closeFeed = useCallback(() => {
+    sessionRef.current = null
+    pendingBookRef.current = null
+    setIsFeedStale(false)
+    throughputRef.current = { messagesPerSecond: 0, snapshotsPerSecond: 0 }
+    postCommand({ type: "disconnect" })
+  }, [postCommand])
+
+  // Manual reconnects start a fresh retry budget
   const reconnect = useCallback(() => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current)
-    }
+    setRetryAttempt(0)
     connect()
   }, [connect])
 
+  const disconnect = useCallback(() => {
+    closeFeed()
+    setRetryAttempt(0)
+    setNextRetryAt(null)
+    setConnectionState("closed-by-user")
+  }, [closeFeed])
+
   useEffect(() => {
+    // Feed integrity counters describe the current venue and symbol only
+    setIsStale(false)
+    setChecksumFailures(0)
+    setChecksumVerified(false)
+    setRetryAttempt(0)
     connect()
 
-    return () => {
-      if (wsRef.current) {
-        wsRef.current.close()
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current)
-      }
-    }
-  }, [connect])
+    return closeFeed
+  }, [connect, closeFeed])
+
+  useEffect(() => {
+    postCommand({ type: "configure", settings })
+  }, [settings, postCommand])
 
   return {
     orderbookData,
-    isConnected,
+    ticker,
+    isConnected: connectionState === "open",
+    depth,
+    depthOptions,
+    connectionState,
+    nextRetryAt,
+    retryAttempt,
+    maxRetries: DEFAULT_RECONNECT_POLICY.maxRetries,
+    isStale,
+    isFeedStale,
+    lastUpdateAt,
+    throughputRef,
+    checksumFailures,
+    checksumVerified,
+    gapEvents,
     error,
     reconnect,
+    disconnect,
   }
 }
@@ -0,0 +1,19 @@
+export interface BackoffPolicy {
+  baseDelayMs: number
+  maxDelayMs: number
+  // Consecutive failed attempts after which reconnecting is left to the user
+  maxRetries: number
+}
+
+export const DEFAULT_RECONNECT_POLICY: BackoffPolicy = {
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxRetries: 8,
+}
+
+// Doubles the delay with every attempt up to the cap, then picks a random point in its upper half so that
+// clients dropped at the same moment do not all come back at the same moment
+export function getBackoffDelay(attempt: number, policy: BackoffPolicy = DEFAULT_RECONNECT_POLICY) {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2))
+}
@@ -0,0 +1,111 @@
+import type { InstrumentSpec } from "../types/instrument"
+import type { OrderbookData, OrderbookLevel, Venue } from "../types/orderbook"
+import { groupOrderbook } from "./priceGrouping"
+
+export interface ConsolidatedLevel extends OrderbookLevel {
+  // Size each venue quotes at this price, in base units
+  venues: Partial<Record<Venue, number>>
+}
+
+// Best price on one side across venues and every venue quoting it
+export interface VenueQuote {
+  price: number
+  venues: Venue[]
+}
+
+// Locked: the best bid on one venue equals the best ask on another. Crossed: it is above it.
+export type MarketCross = "normal" | "locked" | "crossed"
+
+export interface ConsolidatedBook {
+  symbol: string
+  bids: ConsolidatedLevel[]
+  asks: ConsolidatedLevel[]
+  bestBid: VenueQuote | null
+  bestAsk: VenueQuote | null
+  cross: MarketCross
+  // Venues with a book in the merge
+  venues: Venue[]
+}
+
+export interface VenueBook {
+  data: OrderbookData
+  spec: InstrumentSpec | null
+}
+
+// Inverse (coin-margined) contracts are sized in the quote currency, see types/instrument
+function isInverse(spec: InstrumentSpec) {
+  return spec.instrument.kind !== "spot" && spec.instrument.kind !== "option" && spec.instrument.quote === "USD"
+}
+
+// Venues size derivatives in contracts or in quote currency; merging needs every size in base units
+export function toBaseQuantity(quantity: number, price: number, spec: InstrumentSpec | null) {
+  if (!spec) return quantity
+  const value = quantity * spec.contractMultiplier
+  return isInverse(spec) && price > 0 ? value / price : value
+}
+
+function toBaseLevels(levels: OrderbookLevel[], spec: InstrumentSpec | null) {
+  if (!spec || (spec.contractMultiplier === 1 && !isInverse(spec))) return levels
+  return levels.map((level) => ({ price: level.price, quantity: toBaseQuantity(level.quantity, level.price, spec) }))
+}
+
+function mergeSide(books: OrderbookData[], side: "bids" | "asks") {
+  const levels = new Map<number, ConsolidatedLevel>()
+  for (const book of books) {
+    for (const level of book[side]) {
+      const merged = levels.get(level.price) ?? { price: level.price, quantity: 0, venues: {} }
+      merged.quantity += level.quantity
+      merged.venues[book.venue] = (merged.venues[book.venue] ?? 0) + level.quantity
+      levels.set(level.price, merged)
+    }
+  }
+  const sorted = Array.from(levels.values())
+  return side === "bids" ? sorted.sort((a, b) => b.price - a.price) : sorted.sort((a, b) => a.price - b.price)
+}
+
+function bestQuote(books: OrderbookData[], side: "bids" | "asks"): VenueQuote | null {
+  let best: VenueQuote | null = null
+  for (const book of books) {
+    const top = book[side][0]
+    if (!top) continue
+    const better = !best || (side === "bids" ? top.price > best.price : top.price < best.price)
+    if (better) {
+      best = { price: top.price, venues: [book.venue] }
+    } else if (best && top.price === best.price) {
+      best.venues.push(book.venue)
+    }
+  }
+  return best
+}
+
+// Merges several venues' books for the same canonical symbol by price, optionally grouped to a price step first so
+// that venues with different tick sizes line up. The best quotes and the cross come from the ungrouped books, since
+// grouping moves bids down and asks up and would hide a lock or cross between venues.
+export function consolidateOrderbooks(
+  symbol: string,
+  books: VenueBook[],
+  step: number | null = null,
+): ConsolidatedBook {
+  const raw = books.map(({ data }) => data)
+  const normalized = books.map(({ data, spec }) =>
+    groupOrderbook({ ...data, bids: toBaseLevels(data.bids, spec), asks: toBaseLevels(data.asks, spec) }, step),
+  )
+  const bestBid = bestQuote(raw, "bids")
+  const bestAsk = bestQuote(raw, "asks")
+
+  let cross: MarketCross = "normal"
+  if (bestBid && bestAsk) {
+    if (bestBid.price > bestAsk.price) cross = "crossed"
+    else if (bestBid.price === bestAsk.price) cross = "locked"
+  }
+
+  return {
+    symbol,
+    bids: mergeSide(normalized, "bids"),
+    asks: mergeSide(normalized, "asks"),
+    bestBid,
+    bestAsk,
+    cross,
+    venues: normalized.map((book) => book.venue),
+  }
+}
@@ -0,0 +1,133 @@
+import type { InstrumentSpec } from "../types/instrument"
+import type { CostAmount, ExecutionCost, MarketImpactMetrics, OrderbookData, OrderbookLevel } from "../types/orderbook"
+import { toBaseQuantity } from "./consolidatedBook"
+import type { FeeRates } from "./fees"
+
+export type OrderSide = "buy" | "sell"
+
+export interface SweepResult {
+  filledQuantity: number
+  averagePrice: number
+  worstPrice: number
+}
+
+export interface PriceLimit {
+  side: OrderSide
+  price: number
+}
+
+function isWithinLimit(price: number, limit: PriceLimit | undefined) {
+  if (!limit) return true
+  return limit.side === "buy" ? price <= limit.price : price >= limit.price
+}
+
+// Takes liquidity level by level from the touch outwards until the quantity is filled, the levels run out or the next
+// level is beyond the limit price
+export function sweepLevels(levels: OrderbookLevel[], quantity: number, limit?: PriceLimit): SweepResult {
+  let remainingQuantity = quantity
+  let totalCost = 0
+  let filledQuantity = 0
+  let worstPrice = 0
+
+  for (const level of levels) {
+    if (remainingQuantity <= 0 || !isWithinLimit(level.price, limit)) break
+
+    const quantityAtLevel = Math.min(remainingQuantity, level.quantity)
+    totalCost += quantityAtLevel * level.price
+    filledQuantity += quantityAtLevel
+    remainingQuantity -= quantityAtLevel
+    worstPrice = level.price
+  }
+
+  return { filledQuantity, averagePrice: filledQuantity > 0 ? totalCost / filledQuantity : 0, worstPrice }
+}
+
+export function bookLevelsFor(orderbookData: OrderbookData, side: OrderSide) {
+  return side === "buy" ? orderbookData.asks : orderbookData.bids
+}
+
+// A limit order that reaches the other side's touch takes liquidity instead of resting
+export function isMarketable(orderbookData: OrderbookData, side: OrderSide, limitPrice: number) {
+  const touch = bookLevelsFor(orderbookData, side)[0]?.price
+  if (touch === undefined) return false
+  return side === "buy" ? limitPrice >= touch : limitPrice <= touch
+}
+
+export function estimateMarketImpact(
+  orderbookData: OrderbookData | null,
+  side: OrderSide,
+  quantity: number,
+  // Limit orders only take liquidity up to their price
+  limitPrice?: number,
+): MarketImpactMetrics {
+  if (!orderbookData || !(quantity > 0)) {
+    return { estimatedFill: 0, marketImpact: 0, slippage: 0, averagePrice: 0, worstPrice: 0 }
+  }
+
+  const levels = bookLevelsFor(orderbookData, side)
+  const limit = limitPrice === undefined ? undefined : { side, price: limitPrice }
+  const { filledQuantity, averagePrice, worstPrice } = sweepLevels(levels, quantity, limit)
+
+  const estimatedFill = (filledQuantity / quantity) * 100
+  const bestPrice = levels[0]?.price || 0
+  const slippage = bestPrice > 0 && filledQuantity > 0 ? Math.abs((averagePrice - bestPrice) / bestPrice) * 100 : 0
+  const marketImpact =
+    levels.length > 0 ? (filledQuantity / levels.reduce((sum, level) => sum + level.quantity, 0)) * 100 : 0
+
+  return { estimatedFill, marketImpact, slippage, averagePrice, worstPrice }
+}
+
+interface ExecutionCostInput {
+  orderbookData: OrderbookData
+  side: OrderSide
+  // Venue-native size and the price it filled at
+  filledQuantity: number
+  averagePrice: number
+  liquidity: ExecutionCost["liquidity"]
+  fees: FeeRates
+  spec: InstrumentSpec | null
+  // Mid the order is measured against; defaults to the mid of the given book
+  arrivalPrice?: number
+}
+
+// Breaks the cost of a fill down into fees, slippage against the mid and the touch, and their total against the
+// arrival mid. Every amount is signed so that a cost is positive whichever side the order is on.
+export function measureExecutionCost({
+  orderbookData,
+  side,
+  filledQuantity,
+  averagePrice,
+  liquidity,
+  fees,
+  spec,
+  arrivalPrice,
+}: ExecutionCostInput): ExecutionCost | null {
+  const bestBid = orderbookData.bids[0]?.price
+  const bestAsk = orderbookData.asks[0]?.price
+  if (bestBid === undefined || bestAsk === undefined || filledQuantity <= 0) return null
+
+  const midPrice = arrivalPrice ?? (bestBid + bestAsk) / 2
+  const bestPrice = side === "buy" ? bestAsk : bestBid
+  const baseQuantity = toBaseQuantity(filledQuantity, averagePrice, spec)
+  const arrivalNotional = baseQuantity * midPrice
+  const direction = side === "buy" ? 1 : -1
+  const feeRate = liquidity === "maker" ? fees.maker : fees.taker
+
+  const amount = (quote: number): CostAmount => ({
+    quote,
+    bps: arrivalNotional > 0 ? (quote / arrivalNotional) * 10000 : 0,
+  })
+  const feesPaid = baseQuantity * averagePrice * feeRate
+  const slippageVsMid = direction * (averagePrice - midPrice) * baseQuantity
+
+  return {
+    liquidity,
+    feeRate,
+    midPrice,
+    bestPrice,
+    fees: amount(feesPaid),
+    slippageVsMid: amount(slippageVsMid),
+    slippageVsBest: amount(direction * (averagePrice - bestPrice) * baseQuantity),
+    implementationShortfall: amount(slippageVsMid + feesPaid),
+  }
+}
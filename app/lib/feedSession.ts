@@ -0,0 +1,404 @@
+import type { BookUpdate, ConnectionState, PriceTicker, SequenceGapEvent } from "../types/orderbook"
+import type { FeedConfig, FeedEvent, FeedSettings } from "../types/feed"
+import {
+  applyBookUpdate,
+  createLocalOrderbook,
+  isSequenceGap,
+  resetLocalOrderbook,
+  toOrderbookData,
+  truncateLocalOrderbook,
+  type LocalOrderbook,
+} from "./orderbookEngine"
+import { parseSymbol } from "./instruments"
+import { DEFAULT_RECONNECT_POLICY, getBackoffDelay } from "./backoff"
+import { getVenueAdapter } from "../venues"
+
+// Upper bound on deltas held back while a REST snapshot loads
+const MAX_PENDING_DELTAS = 1000
+
+const WATCHDOG_INTERVAL_MS = 1000
+
+const THROUGHPUT_INTERVAL_MS = 1000
+
+export interface FeedSession {
+  configure: (settings: Partial<FeedSettings>) => void
+  // Closes the socket for good; nothing is emitted afterwards
+  close: () => void
+}
+
+// One venue and symbol: the WebSocket with its reconnects and heartbeats, the local book and its integrity checks.
+// Book changes are coalesced and emitted at most snapshotFps times a second.
+export function createFeedSession(config: FeedConfig, emit: (event: FeedEvent) => void): FeedSession {
+  const { venue, symbol, depth } = config
+  const settings: FeedSettings = {
+    instrumentSpec: config.instrumentSpec,
+    staleAfterMs: config.staleAfterMs,
+    snapshotFps: config.snapshotFps,
+  }
+  const adapter = getVenueAdapter(venue)
+  // The UI works in canonical symbols; each venue gets its own instrument name
+  const instrument = parseSymbol(symbol)
+  const venueSymbol = instrument ? adapter.toVenueSymbol(instrument) : null
+
+  let ws: WebSocket | null = null
+  let book: LocalOrderbook | null = null
+  let closed = false
+  let retryAttempt = 0
+  let bookChanged = false
+  let ticker: PriceTicker | null = null
+  let tickerChanged = false
+  let lastBookUpdateAt = 0
+  let feedStale = false
+  let checksumVerified = false
+  // Set while the book is being rebuilt after a gap or checksum failure, and while a reported gap is still open, so
+  // that only the snapshot that ends them reports recovery
+  let resyncing = false
+  let openGap = false
+  let messageCount = 0
+  let snapshotCount = 0
+  let reconnectTimeout: ReturnType<typeof setTimeout> | null = null
+  let snapshotRetryTimeout: ReturnType<typeof setTimeout> | null = null
+  let heartbeatInterval: ReturnType<typeof setInterval> | null = null
+  let watchdogInterval: ReturnType<typeof setInterval> | null = null
+  let flushInterval: ReturnType<typeof setInterval> | null = null
+  let throughputInterval: ReturnType<typeof setInterval> | null = null
+
+  const setConnectionState = (state: ConnectionState, nextRetryAt: number | null = null) => {
+    emit({ type: "connection", state, nextRetryAt, retryAttempt })
+  }
+
+  const setFeedStale = (stale: boolean) => {
+    if (stale === feedStale) return
+    feedStale = stale
+    emit({ type: "feed-stale", stale })
+  }
+
+  const startFlushing = () => {
+    if (flushInterval) clearInterval(flushInterval)
+    flushInterval = setInterval(
+      () => {
+        if (tickerChanged && ticker) {
+          tickerChanged = false
+          emit({ type: "ticker", ticker })
+        }
+        if (!bookChanged || !book) return
+        bookChanged = false
+        snapshotCount += 1
+        emit({ type: "book", data: toOrderbookData(book), lastUpdateAt: lastBookUpdateAt })
+      },
+      1000 / Math.max(1, settings.snapshotFps),
+    )
+  }
+
+  const stopConnectionTimers = () => {
+    if (heartbeatInterval) {
+      clearInterval(heartbeatInterval)
+      heartbeatInterval = null
+    }
+    if (watchdogInterval) {
+      clearInterval(watchdogInterval)
+      watchdogInterval = null
+    }
+    setFeedStale(false)
+  }
+
+  // Detaches the socket before closing it, so that its close event is not taken for a dropped connection, and
+  // cancels any reconnect that was pending
+  const closeSocket = () => {
+    const socket = ws
+    ws = null
+    if (reconnectTimeout) {
+      clearTimeout(reconnectTimeout)
+      reconnectTimeout = null
+    }
+    if (snapshotRetryTimeout) {
+      clearTimeout(snapshotRetryTimeout)
+      snapshotRetryTimeout = null
+    }
+    stopConnectionTimers()
+    if (socket && socket.readyState !== WebSocket.CLOSING && socket.readyState !== WebSocket.CLOSED) {
+      socket.close()
+    }
+  }
+
+  // Called when the connection drops or cannot be established; gives up after the policy's retry limit
+  const scheduleReconnect = () => {
+    if (closed) return
+    if (retryAttempt >= DEFAULT_RECONNECT_POLICY.maxRetries) {
+      setConnectionState("idle")
+      emit({ type: "error", message: `Lost connection to ${venue} and gave up after ${retryAttempt} retries` })
+      return
+    }
+
+    const delay = getBackoffDelay(retryAttempt)
+    retryAttempt += 1
+    setConnectionState("backing-off", Date.now() + delay)
+    reconnectTimeout = setTimeout(connect, delay)
+  }
+
+  const connect = () => {
+    closeSocket()
+
+    if (!instrument || !venueSymbol) {
+      emit({ type: "error", message: `${symbol} is not available on ${venue}` })
+      setConnectionState("idle")
+      return
+    }
+
+    const wsUrl = adapter.getWebSocketUrl(instrument)
+    if (!wsUrl) {
+      emit({ type: "error", message: `WebSocket URL not available for ${venue}` })
+      setConnectionState("idle")
+      return
+    }
+
+    try {
+      setConnectionState("connecting")
+      const socket = new WebSocket(wsUrl)
+      ws = socket
+      // Every new connection starts from an empty book and waits for the venue's snapshot
+      const connectionBook = createLocalOrderbook(venue, symbol)
+      book = connectionBook
+      ticker = null
+
+      socket.onopen = () => {
+        if (ws !== socket) return
+        console.log(`Connected to ${venue} WebSocket`)
+        retryAttempt = 0
+        setConnectionState("open")
+        emit({ type: "error", message: null })
+
+        socket.send(JSON.stringify(adapter.getSubscribeMessage(instrument, venueSymbol, depth)))
+        if (adapter.getTickerSubscribeMessage) {
+          socket.send(JSON.stringify(adapter.getTickerSubscribeMessage(instrument, venueSymbol)))
+        }
+        if (adapter.fetchSnapshot) {
+          loadSnapshot()
+        }
+
+        const { heartbeat } = adapter
+        if (heartbeat?.setupMessage) {
+          socket.send(JSON.stringify(heartbeat.setupMessage))
+        }
+        if (heartbeat?.ping && heartbeat.intervalMs) {
+          const ping = heartbeat.ping
+          heartbeatInterval = setInterval(() => {
+            if (socket.readyState === WebSocket.OPEN) socket.send(ping)
+          }, heartbeat.intervalMs)
+        }
+
+        // Counts from the moment the connection opens, so a snapshot that never arrives is caught as well
+        lastBookUpdateAt = Date.now()
+        watchdogInterval = setInterval(() => {
+          const stale = Date.now() - lastBookUpdateAt > settings.staleAfterMs
+          if (stale && !feedStale) console.warn(`${venue} feed for ${symbol} has gone quiet`)
+          setFeedStale(stale)
+        }, WATCHDOG_INTERVAL_MS)
+      }
+
+      // Throws the local book away and gets a new snapshot on the existing connection
+      const resync = () => {
+        if (ws !== socket || socket.readyState !== WebSocket.OPEN) return
+
+        resetLocalOrderbook(connectionBook)
+        resyncing = true
+        emit({ type: "resyncing", resyncing: true })
+        if (adapter.fetchSnapshot) {
+          loadSnapshot()
+        } else {
+          socket.send(JSON.stringify(adapter.getUnsubscribeMessage(instrument, venueSymbol, depth)))
+          socket.send(JSON.stringify(adapter.getSubscribeMessage(instrument, venueSymbol, depth)))
+        }
+      }
+
+      const processUpdate = (update: BookUpdate) => {
+        if (isSequenceGap(connectionBook, update)) {
+          console.warn(`${venue} sequence gap for ${symbol}: ${connectionBook.sequence} -> ${update.prevSequence}`)
+          const gap: SequenceGapEvent = {
+            venue,
+            symbol,
+            lastSequence: connectionBook.sequence!,
+            receivedSequence: update.sequence ?? update.prevSequence!,
+            detectedAt: Date.now(),
+          }
+          openGap = true
+          emit({ type: "gap", gap })
+          resync()
+          return
+        }
+
+        if (!applyBookUpdate(connectionBook, update)) return
+        // Venues only keep the subscribed depth in sync, so levels pushed below it would otherwise linger
+        if (Number.isFinite(depth)) {
+          truncateLocalOrderbook(connectionBook, depth)
+        }
+
+        if (update.checksum !== undefined && adapter.verifyChecksum) {
+          const verified = adapter.verifyChecksum(connectionBook, update, settings.instrumentSpec)
+          if (verified === false) {
+            console.warn(`${venue} checksum mismatch for ${symbol}, requesting a fresh snapshot`)
+            emit({ type: "checksum", ok: false })
+            resync()
+            return
+          }
+          if (verified && !checksumVerified) {
+            checksumVerified = true
+            emit({ type: "checksum", ok: true })
+          }
+        }
+
+        // Some channels send every message as a snapshot, so only the first one after a resync reports recovery
+        if (update.type === "snapshot" && resyncing) {
+          resyncing = false
+          emit({ type: "resyncing", resyncing: false })
+        }
+        // The snapshot that replaces a broken book closes any gap still open for this feed
+        if (update.type === "snapshot" && openGap) {
+          openGap = false
+          emit({ type: "gap-recovered", recoveredAt: Date.now() })
+        }
+        lastBookUpdateAt = Date.now()
+        setFeedStale(false)
+        bookChanged = true
+      }
+
+      // Deltas received while the snapshot loads are kept and replayed on top of it, oldest first. Buffering stops
+      // once the snapshot has been given up on.
+      const pendingDeltas: BookUpdate[] = []
+      let isBuffering = false
+      // A failed request is retried on the reconnect backoff schedule, keeping the deltas buffered so far: the
+      // snapshot that finally loads covers the oldest of them and the rest are replayed on top
+      const loadSnapshot = async (attempt = 0) => {
+        if (snapshotRetryTimeout) {
+          clearTimeout(snapshotRetryTimeout)
+          snapshotRetryTimeout = null
+        }
+        if (attempt === 0) pendingDeltas.length = 0
+        isBuffering = true
+        try {
+          const snapshot = await adapter.fetchSnapshot!(instrument, venueSymbol, depth)
+          if (ws !== socket || connectionBook.ready) return
+
+          isBuffering = false
+          if (attempt > 0) emit({ type: "error", message: null })
+          processUpdate(snapshot)
+          for (const delta of pendingDeltas.splice(0)) {
+            if (!connectionBook.ready) break
+            processUpdate(delta)
+          }
+        } catch (err) {
+          console.error(`${venue} snapshot request failed:`, err)
+          if (ws !== socket) return
+          if (attempt >= DEFAULT_RECONNECT_POLICY.maxRetries) {
+            isBuffering = false
+            pendingDeltas.length = 0
+            emit({
+              type: "error",
+              message: `Could not load the ${venue} order book snapshot after ${attempt + 1} attempts; reconnect to try again`,
+            })
+            return
+          }
+          const delay = getBackoffDelay(attempt)
+          emit({
+            type: "error",
+            message: `Could not load the ${venue} order book snapshot, retrying in ${Math.ceil(delay / 1000)}s`,
+          })
+          snapshotRetryTimeout = setTimeout(() => loadSnapshot(attempt + 1), delay)
+        }
+      }
+
+      socket.onmessage = (event) => {
+        messageCount += 1
+        try {
+          if (adapter.heartbeat?.isPong(event.data)) {
+            if (adapter.heartbeat.isLiveness) {
+              lastBookUpdateAt = Date.now()
+              setFeedStale(false)
+            }
+            return
+          }
+
+          const data = JSON.parse(event.data)
+          const reply = adapter.heartbeat?.getReply?.(data)
+          if (reply) {
+            socket.send(JSON.stringify(reply))
+            return
+          }
+          const venueError = adapter.parseError?.(data)
+          if (venueError) {
+            console.error(`${venue} error for ${symbol}:`, venueError)
+            emit({ type: "error", message: venueError })
+            return
+          }
+          // Ticker messages may carry only some of the prices, so they are merged into the last known ones
+          const tickerUpdate = adapter.parseTicker?.(data)
+          if (tickerUpdate) {
+            ticker = { ...ticker, ...tickerUpdate }
+            tickerChanged = true
+            return
+          }
+
+          const update = adapter.parseMessage(data)
+          if (!update) return
+
+          if (adapter.fetchSnapshot && !connectionBook.ready) {
+            if (!isBuffering) return
+            // The oldest deltas go first: the snapshot still to come covers them, not the newest
+            if (pendingDeltas.length >= MAX_PENDING_DELTAS) pendingDeltas.shift()
+            pendingDeltas.push(update)
+            return
+          }
+          processUpdate(update)
+        } catch (err) {
+          console.error("Error parsing WebSocket message:", err)
+        }
+      }
+
+      socket.onerror = (error) => {
+        if (ws !== socket) return
+        console.error(`${venue} WebSocket error:`, error)
+        emit({ type: "error", message: `WebSocket connection error for ${venue}` })
+      }
+
+      socket.onclose = () => {
+        // Sockets closed on purpose have already been detached
+        if (ws !== socket) return
+        console.log(`${venue} WebSocket connection closed`)
+        ws = null
+        stopConnectionTimers()
+        scheduleReconnect()
+      }
+    } catch (err) {
+      emit({ type: "error", message: `Failed to connect to ${venue}: ${err}` })
+      scheduleReconnect()
+    }
+  }
+
+  startFlushing()
+  throughputInterval = setInterval(() => {
+    emit({ type: "throughput", messagesPerSecond: messageCount, snapshotsPerSecond: snapshotCount })
+    messageCount = 0
+    snapshotCount = 0
+  }, THROUGHPUT_INTERVAL_MS)
+  connect()
+
+  return {
+    configure: (next) => {
+      const fpsChanged = next.snapshotFps !== undefined && next.snapshotFps !== settings.snapshotFps
+      Object.assign(settings, next)
+      if (fpsChanged && !closed) startFlushing()
+    },
+    close: () => {
+      closed = true
+      closeSocket()
+      if (flushInterval) {
+        clearInterval(flushInterval)
+        flushInterval = null
+      }
+      if (throughputInterval) {
+        clearInterval(throughputInterval)
+        throughputInterval = null
+      }
+    },
+  }
+}
@@ -0,0 +1,103 @@
+import type { Instrument } from "../types/instrument"
+import type { Venue } from "../types/orderbook"
+
+// Fractions of traded notional; a negative maker rate is a rebate
+export interface FeeRates {
+  maker: number
+  taker: number
+}
+
+export type FeeMarket = "spot" | "derivatives"
+
+export interface FeeTier {
+  name: string
+  // Markets missing from a tier are not listed on the venue
+  rates: Partial<Record<FeeMarket, FeeRates>>
+}
+
+// Published volume tiers, lowest first; the first tier is what a new account pays
+export const VENUE_FEE_TIERS: Record<Venue, FeeTier[]> = {
+  OKX: [
+    {
+      name: "Regular",
+      rates: { spot: { maker: 0.0008, taker: 0.001 }, derivatives: { maker: 0.0002, taker: 0.0005 } },
+    },
+    {
+      name: "VIP 1",
+      rates: { spot: { maker: 0.00045, taker: 0.0005 }, derivatives: { maker: 0.00015, taker: 0.0004 } },
+    },
+    { name: "VIP 5", rates: { spot: { maker: 0.0001, taker: 0.0003 }, derivatives: { maker: 0, taker: 0.0003 } } },
+    {
+      name: "VIP 8",
+      rates: { spot: { maker: -0.00005, taker: 0.00015 }, derivatives: { maker: -0.00005, taker: 0.0002 } },
+    },
+  ],
+  Bybit: [
+    {
+      name: "Non-VIP",
+      rates: { spot: { maker: 0.001, taker: 0.001 }, derivatives: { maker: 0.0002, taker: 0.00055 } },
+    },
+    {
+      name: "VIP 1",
+      rates: { spot: { maker: 0.000675, taker: 0.0008 }, derivatives: { maker: 0.00018, taker: 0.0004 } },
+    },
+    { name: "VIP 5", rates: { spot: { maker: 0, taker: 0.0003 }, derivatives: { maker: 0, taker: 0.0003 } } },
+  ],
+  Deribit: [{ name: "Standard", rates: { spot: { maker: 0, taker: 0 }, derivatives: { maker: 0, taker: 0.0005 } } }],
+  Binance: [
+    { name: "Regular", rates: { spot: { maker: 0.001, taker: 0.001 }, derivatives: { maker: 0.0002, taker: 0.0005 } } },
+    { name: "VIP 1", rates: { spot: { maker: 0.0009, taker: 0.001 }, derivatives: { maker: 0.00016, taker: 0.0004 } } },
+    {
+      name: "VIP 5",
+      rates: { spot: { maker: 0.0004, taker: 0.0006 }, derivatives: { maker: 0.00008, taker: 0.0003 } },
+    },
+    { name: "VIP 9", rates: { spot: { maker: 0.00011, taker: 0.00023 }, derivatives: { maker: 0, taker: 0.00017 } } },
+  ],
+  Coinbase: [
+    { name: "Intro 1", rates: { spot: { maker: 0.004, taker: 0.006 } } },
+    { name: "Advanced 1", rates: { spot: { maker: 0.0025, taker: 0.004 } } },
+    { name: "VIP 1", rates: { spot: { maker: 0.0006, taker: 0.0015 } } },
+  ],
+  Kraken: [
+    { name: "Starter", rates: { spot: { maker: 0.0025, taker: 0.004 } } },
+    { name: "Intermediate", rates: { spot: { maker: 0.0014, taker: 0.0024 } } },
+    { name: "Pro", rates: { spot: { maker: 0, taker: 0.001 } } },
+  ],
+}
+
+// The user's tier on each venue, by index into VENUE_FEE_TIERS, and rates pinned for individual instruments, keyed by
+// feeOverrideKey. Venues without a tier use the first one.
+export interface FeeSelection {
+  tiers: Partial<Record<Venue, number>>
+  overrides: Record<string, FeeRates>
+}
+
+export const DEFAULT_FEE_SELECTION: FeeSelection = { tiers: {}, overrides: {} }
+
+const NO_FEES: FeeRates = { maker: 0, taker: 0 }
+
+export function getFeeMarket(instrument: Instrument): FeeMarket {
+  return instrument.kind === "spot" ? "spot" : "derivatives"
+}
+
+export function feeOverrideKey(venue: Venue, symbol: string) {
+  return `${venue}:${symbol}`
+}
+
+export function getFeeTier(venue: Venue, selection: FeeSelection = DEFAULT_FEE_SELECTION): FeeTier {
+  const tiers = VENUE_FEE_TIERS[venue]
+  return tiers[selection.tiers[venue] ?? 0] ?? tiers[0]
+}
+
+// An instrument override wins over the selected tier; instruments that cannot be classified are treated as fee-free
+export function getFeeRates(
+  venue: Venue,
+  instrument: Instrument | null,
+  selection: FeeSelection = DEFAULT_FEE_SELECTION,
+  symbol?: string,
+): FeeRates {
+  const override = symbol ? selection.overrides[feeOverrideKey(venue, symbol)] : undefined
+  if (override) return override
+  if (!instrument) return NO_FEES
+  return getFeeTier(venue, selection).rates[getFeeMarket(instrument)] ?? NO_FEES
+}
@@ -0,0 +1,35 @@
+import type { InstrumentSpec } from "../types/instrument"
+import type { Venue } from "../types/orderbook"
+
+const CACHE_KEY = "orderbook-viewer:instrument-catalog:v1"
+
+// Instrument lists change a few times a day at most, so an hour-old catalog is still good
+export const CATALOG_TTL_MS = 60 * 60 * 1000
+
+export interface CachedVenueCatalog {
+  fetchedAt: number
+  instruments: InstrumentSpec[]
+}
+
+export type InstrumentCatalog = Partial<Record<Venue, CachedVenueCatalog>>
+
+export function loadCachedCatalog(): InstrumentCatalog {
+  if (typeof window === "undefined") return {}
+  try {
+    return JSON.parse(window.localStorage.getItem(CACHE_KEY) ?? "{}")
+  } catch {
+    return {}
+  }
+}
+
+export function saveCachedCatalog(catalog: InstrumentCatalog) {
+  try {
+    window.localStorage.setItem(CACHE_KEY, JSON.stringify(catalog))
+  } catch (err) {
+    console.warn("Could not cache instrument catalog:", err)
+  }
+}
+
+export function findInstrumentSpec(instruments: InstrumentSpec[], venue: Venue, symbol: string) {
+  return instruments.find((spec) => spec.venue === venue && spec.symbol === symbol) ?? null
+}
@@ -0,0 +1,112 @@
+import type { Instrument, InstrumentKind } from "../types/instrument"
+
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"]
+// CME-style futures month codes, e.g. Z for December
+export const MONTH_CODES = "FGHJKMNQUVXZ"
+
+// Date and option helpers shared by the venue adapters' symbol mappings
+
+export function expiryParts(expiry: string) {
+  const [year, month, day] = expiry.split("-").map((part) => Number.parseInt(part))
+  return { year, month, day }
+}
+
+function toIsoDate(year: number, month: number, day: number) {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+}
+
+// 2025-12-26 -> 251226
+export function toYymmdd(expiry: string) {
+  const { year, month, day } = expiryParts(expiry)
+  return `${String(year % 100).padStart(2, "0")}${String(month).padStart(2, "0")}${String(day).padStart(2, "0")}`
+}
+
+export function fromYymmdd(value: string) {
+  if (!/^\d{6}$/.test(value)) return null
+  return toIsoDate(
+    2000 + Number.parseInt(value.slice(0, 2)),
+    Number.parseInt(value.slice(2, 4)),
+    Number.parseInt(value.slice(4)),
+  )
+}
+
+// 2025-12-26 -> 26DEC25, 2026-01-02 -> 2JAN26
+export function toDayMonthYear(expiry: string) {
+  const { year, month, day } = expiryParts(expiry)
+  return `${day}${MONTHS[month - 1]}${String(year % 100).padStart(2, "0")}`
+}
+
+export function fromDayMonthYear(value: string) {
+  const match = /^(\d{1,2})([A-Z]{3})(\d{2})$/.exec(value)
+  if (!match || !MONTHS.includes(match[2])) return null
+  return toIsoDate(2000 + Number.parseInt(match[3]), MONTHS.indexOf(match[2]) + 1, Number.parseInt(match[1]))
+}
+
+// Quarterly contracts that only encode month and year expire on the last Friday of that month
+export function lastFridayOfMonth(year: number, month: number) {
+  const lastDay = new Date(Date.UTC(year, month, 0))
+  const offset = (lastDay.getUTCDay() + 2) % 7
+  return toIsoDate(year, month, lastDay.getUTCDate() - offset)
+}
+
+export function optionSuffix(instrument: Instrument) {
+  return `${instrument.strike}-${instrument.optionType === "put" ? "P" : "C"}`
+}
+
+export function parseOptionType(value: string) {
+  return value === "C" ? "call" : value === "P" ? "put" : null
+}
+
+// Canonical symbols are what the UI and simulator use everywhere:
+// BTC-USDT (spot), BTC-USDT-PERP, BTC-USD-20251226 (future), BTC-USD-20251226-100000-C (option)
+export function formatSymbol(instrument: Instrument): string {
+  const pair = `${instrument.base}-${instrument.quote}`
+  const expiry = instrument.expiry?.replace(/-/g, "")
+
+  switch (instrument.kind) {
+    case "spot":
+      return pair
+    case "perp":
+      return `${pair}-PERP`
+    case "future":
+      return `${pair}-${expiry}`
+    case "option":
+      return `${pair}-${expiry}-${optionSuffix(instrument)}`
+  }
+}
+
+export function parseSymbol(symbol: string): Instrument | null {
+  const [base, quote, ...rest] = symbol.trim().toUpperCase().split("-")
+  if (!base || !quote) return null
+  if (rest.length === 0) return { base, quote, kind: "spot" }
+  if (rest.length === 1 && rest[0] === "PERP") return { base, quote, kind: "perp" }
+
+  const expiryMatch = /^(\d{4})(\d{2})(\d{2})$/.exec(rest[0])
+  if (!expiryMatch) return null
+  const expiry = `${expiryMatch[1]}-${expiryMatch[2]}-${expiryMatch[3]}`
+  if (rest.length === 1) return { base, quote, kind: "future", expiry }
+
+  const strike = Number.parseFloat(rest[1])
+  const optionType = parseOptionType(rest[2])
+  if (rest.length === 3 && Number.isFinite(strike) && optionType) {
+    return { base, quote, kind: "option", expiry, strike, optionType }
+  }
+  return null
+}
+
+const KIND_LABELS: Record<InstrumentKind, string> = {
+  spot: "Spot",
+  perp: "Perpetual",
+  future: "Future",
+  option: "Option",
+}
+
+export function describeInstrument(instrument: Instrument) {
+  const pair = `${instrument.base}/${instrument.quote}`
+  const kind = KIND_LABELS[instrument.kind]
+  if (instrument.kind === "future") return `${pair} ${kind} ${instrument.expiry}`
+  if (instrument.kind === "option") {
+    return `${pair} ${instrument.expiry} ${instrument.strike} ${instrument.optionType === "put" ? "Put" : "Call"}`
+  }
+  return `${pair} ${kind}`
+}
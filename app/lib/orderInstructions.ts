@@ -0,0 +1,171 @@
+import type { Instrument } from "../types/instrument"
+import type { OrderbookData, TimeInForce, Venue } from "../types/orderbook"
+import { bookLevelsFor, isMarketable, type OrderSide } from "./execution"
+
+export const TIME_IN_FORCE_OPTIONS: TimeInForce[] = ["GTC", "IOC", "FOK"]
+
+export interface VenueOrderRules {
+  // Time-in-force values the venue accepts on limit orders
+  timeInForce: TimeInForce[]
+  // What the venue does with a post-only limit that would take liquidity: cancel it, or move it back to rest one tick
+  // behind the other side's touch
+  postOnlyCrossing: "reject" | "reprice"
+}
+
+export const VENUE_ORDER_RULES: Record<Venue, VenueOrderRules> = {
+  // post_only orders that would match are cancelled
+  OKX: { timeInForce: ["GTC", "IOC", "FOK"], postOnlyCrossing: "reject" },
+  // PostOnly orders that would match are cancelled
+  Bybit: { timeInForce: ["GTC", "IOC", "FOK"], postOnlyCrossing: "reject" },
+  // post_only orders are repriced just inside the spread unless reject_post_only is set
+  Deribit: { timeInForce: ["GTC", "IOC", "FOK"], postOnlyCrossing: "reprice" },
+  // LIMIT_MAKER on spot and GTX on futures are rejected when they would match
+  Binance: { timeInForce: ["GTC", "IOC", "FOK"], postOnlyCrossing: "reject" },
+  // post_only orders that would cross are rejected
+  Coinbase: { timeInForce: ["GTC", "IOC", "FOK"], postOnlyCrossing: "reject" },
+  // Only GTC, IOC and GTD; orders with the post flag that would match are cancelled
+  Kraken: { timeInForce: ["GTC", "IOC"], postOnlyCrossing: "reject" },
+}
+
+export interface OrderInstructions {
+  timeInForce: TimeInForce
+  postOnly: boolean
+  reduceOnly: boolean
+}
+
+export const DEFAULT_ORDER_INSTRUCTIONS: OrderInstructions = { timeInForce: "GTC", postOnly: false, reduceOnly: false }
+
+interface InstructionCheckInput {
+  book: OrderbookData
+  venue: Venue
+  instrument: Instrument | null
+  side: OrderSide
+  type: "market" | "limit"
+  // Limit orders only
+  price?: number
+  quantity: number
+  instructions: OrderInstructions
+  // Signed open position in venue units, long positive, that a reduce-only order may close
+  position: number
+  tickSize: number
+}
+
+export interface InstructionCheck {
+  // Price and size that reach the book
+  price?: number
+  quantity: number
+  rejectionReason?: string
+  repricedFrom?: number
+  // Size taken off before the order reaches the book, and why
+  cancelledQuantity: number
+  cancelReasons: string[]
+}
+
+export interface TimeInForceOutcome {
+  rejectionReason?: string
+  cancelledQuantity: number
+  cancelReason?: string
+}
+
+// Fills within this fraction of the order count as complete, so float rounding in the sweep does not fail an FOK
+const FILL_TOLERANCE = 1e-9
+
+function reject(reason: string): InstructionCheck {
+  return { quantity: 0, rejectionReason: reason, cancelledQuantity: 0, cancelReasons: [] }
+}
+
+// Applies what the venue checks before an order matches: supported time-in-force, reduce-only against the open
+// position and post-only against the other side's touch
+export function checkOrderInstructions({
+  book,
+  venue,
+  instrument,
+  side,
+  type,
+  price,
+  quantity,
+  instructions,
+  position,
+  tickSize,
+}: InstructionCheckInput): InstructionCheck {
+  const rules = VENUE_ORDER_RULES[venue]
+  const { timeInForce, postOnly, reduceOnly } = instructions
+
+  if (type === "limit" && !rules.timeInForce.includes(timeInForce)) {
+    return reject(`${venue} does not accept ${timeInForce} orders`)
+  }
+  if (postOnly && type === "market") return reject("Post-only needs a limit price")
+  if (postOnly && timeInForce !== "GTC") return reject(`Post-only orders cannot be ${timeInForce}`)
+
+  let orderQuantity = quantity
+  const cancelReasons: string[] = []
+  if (reduceOnly) {
+    if (!instrument || instrument.kind === "spot") return reject("Reduce-only is only available on derivatives")
+    const closable = side === "buy" ? -position : position
+    if (closable <= 0) {
+      return reject(`Reduce-only ${side} with no ${side === "buy" ? "short" : "long"} position to reduce`)
+    }
+    if (orderQuantity > closable) {
+      cancelReasons.push(`Reduce-only: trimmed to the ${closable.toFixed(4)} open position`)
+      orderQuantity = closable
+    }
+  }
+
+  let orderPrice = price
+  let repricedFrom: number | undefined
+  if (postOnly && price !== undefined && isMarketable(book, side, price)) {
+    const touch = bookLevelsFor(book, side)[0].price
+    if (rules.postOnlyCrossing === "reject") {
+      return reject(
+        `Post-only at $${price.toFixed(2)} would take liquidity at $${touch.toFixed(2)}; ${venue} rejects it`,
+      )
+    }
+    repricedFrom = price
+    orderPrice = Math.round((side === "buy" ? touch - tickSize : touch + tickSize) / tickSize) * tickSize
+  }
+
+  return {
+    price: orderPrice,
+    quantity: orderQuantity,
+    repricedFrom,
+    cancelledQuantity: quantity - orderQuantity,
+    cancelReasons,
+  }
+}
+
+// What happens to the part of an order the book could not fill on arrival: a market order or IOC cancels it, an FOK
+// is rejected whole and a GTC limit leaves it resting
+export function settleTimeInForce(
+  type: "market" | "limit",
+  timeInForce: TimeInForce,
+  quantity: number,
+  filledQuantity: number,
+  price?: number,
+): TimeInForceOutcome {
+  const unfilled = quantity - filledQuantity
+  if (unfilled <= quantity * FILL_TOLERANCE) return { cancelledQuantity: 0 }
+
+  if (type === "market") {
+    return {
+      cancelledQuantity: unfilled,
+      cancelReason: `Market order ran through the visible book; ${unfilled.toFixed(4)} unfilled was cancelled`,
+    }
+  }
+  const limitText = price === undefined ? "the limit" : `$${price.toFixed(2)}`
+  if (timeInForce === "FOK") {
+    return {
+      rejectionReason: `FOK needs ${quantity.toFixed(4)} at or better than ${limitText}; only ${filledQuantity.toFixed(4)} is available`,
+      cancelledQuantity: 0,
+    }
+  }
+  if (timeInForce === "IOC") {
+    return {
+      cancelledQuantity: unfilled,
+      cancelReason:
+        filledQuantity > 0
+          ? `IOC: ${unfilled.toFixed(4)} left after filling up to ${limitText} was cancelled`
+          : `IOC: nothing available at or better than ${limitText}, order cancelled`,
+    }
+  }
+  return { cancelledQuantity: 0 }
+}
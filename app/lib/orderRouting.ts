@@ -0,0 +1,172 @@
+import type { Venue } from "../types/orderbook"
+import { toBaseQuantity, type VenueBook } from "./consolidatedBook"
+import type { OrderSide } from "./execution"
+import { DEFAULT_FEE_SELECTION, getFeeRates, type FeeSelection } from "./fees"
+import { parseSymbol } from "./instruments"
+
+// One level's worth of liquidity on one venue, sized in base units
+interface RouteCandidate {
+  venue: Venue
+  price: number
+  quantity: number
+  feeRate: number
+  // Price per unit once the taker fee is added (buys) or taken off (sells)
+  effectivePrice: number
+}
+
+interface RouteFill {
+  venue: Venue
+  price: number
+  quantity: number
+  feeRate: number
+}
+
+export interface RouteCost {
+  filledQuantity: number
+  // Volume-weighted fill price before fees
+  averagePrice: number
+  // Per-unit price including fees
+  allInPrice: number
+  notional: number
+  fees: number
+}
+
+export interface ChildOrder extends RouteCost {
+  venue: Venue
+  feeRate: number
+  worstPrice: number
+}
+
+export interface SingleVenueExecution extends RouteCost {
+  venue: Venue
+}
+
+export interface RoutingResult extends RouteCost {
+  side: OrderSide
+  quantity: number
+  children: ChildOrder[]
+  // Price range the route takes liquidity over, from the first level to the last one touched
+  bestPrice: number
+  worstPrice: number
+  // The venue that would do best on its own: the most filled, then the lowest all-in cost
+  bestSingleVenue: SingleVenueExecution | null
+  // Size both sides of the comparison fill: the routed size, or less when the best single venue cannot fill it
+  comparableQuantity: number
+  // Cost saved by routing the comparable size instead of sending it to the best single venue, in quote currency and
+  // bps; negative when worse
+  savings: number
+  savingsBps: number
+}
+
+function candidatesFor({ data, spec }: VenueBook, side: OrderSide, fees: FeeSelection): RouteCandidate[] {
+  const feeRate = getFeeRates(data.venue, spec?.instrument ?? parseSymbol(data.symbol), fees, data.symbol).taker
+  const levels = side === "buy" ? data.asks : data.bids
+  return levels.map((level) => ({
+    venue: data.venue,
+    price: level.price,
+    quantity: toBaseQuantity(level.quantity, level.price, spec),
+    feeRate,
+    effectivePrice: side === "buy" ? level.price * (1 + feeRate) : level.price * (1 - feeRate),
+  }))
+}
+
+// Cost is linear in each level, so taking the cheapest levels first across all venues is the minimum-cost split
+function fillCheapestFirst(candidates: RouteCandidate[], side: OrderSide, quantity: number): RouteFill[] {
+  const sorted = [...candidates].sort((a, b) =>
+    side === "buy" ? a.effectivePrice - b.effectivePrice : b.effectivePrice - a.effectivePrice,
+  )
+  const fills: RouteFill[] = []
+  let remaining = quantity
+  for (const candidate of sorted) {
+    if (remaining <= 0) break
+    const take = Math.min(remaining, candidate.quantity)
+    fills.push({ venue: candidate.venue, price: candidate.price, quantity: take, feeRate: candidate.feeRate })
+    remaining -= take
+  }
+  return fills
+}
+
+function summarize(fills: RouteFill[], side: OrderSide): RouteCost {
+  let filledQuantity = 0
+  let notional = 0
+  let fees = 0
+  for (const fill of fills) {
+    filledQuantity += fill.quantity
+    notional += fill.quantity * fill.price
+    fees += fill.quantity * fill.price * fill.feeRate
+  }
+  const averagePrice = filledQuantity > 0 ? notional / filledQuantity : 0
+  const allInPrice = filledQuantity > 0 ? (side === "buy" ? notional + fees : notional - fees) / filledQuantity : 0
+  return { filledQuantity, averagePrice, allInPrice, notional, fees }
+}
+
+function isCheaper(side: OrderSide, a: SingleVenueExecution, b: SingleVenueExecution) {
+  if (a.filledQuantity !== b.filledQuantity) return a.filledQuantity > b.filledQuantity
+  return side === "buy" ? a.allInPrice < b.allInPrice : a.allInPrice > b.allInPrice
+}
+
+// Splits a parent order across the venues' live books to minimise the all-in cost including taker fees
+export function routeOrder(
+  books: VenueBook[],
+  side: OrderSide,
+  quantity: number,
+  fees: FeeSelection = DEFAULT_FEE_SELECTION,
+): RoutingResult | null {
+  if (books.length === 0 || quantity <= 0) return null
+
+  const candidatesByVenue = books.map((book) => candidatesFor(book, side, fees))
+  const fills = fillCheapestFirst(candidatesByVenue.flat(), side, quantity)
+  const routed = summarize(fills, side)
+  if (routed.filledQuantity === 0) return null
+
+  const children: ChildOrder[] = []
+  for (const book of books) {
+    const venueFills = fills.filter((fill) => fill.venue === book.data.venue)
+    if (venueFills.length === 0) continue
+    const worstPrice =
+      side === "buy" ? Math.max(...venueFills.map((f) => f.price)) : Math.min(...venueFills.map((f) => f.price))
+    children.push({
+      venue: book.data.venue,
+      feeRate: venueFills[0].feeRate,
+      worstPrice,
+      ...summarize(venueFills, side),
+    })
+  }
+
+  let single: SingleVenueExecution | null = null
+  for (let index = 0; index < books.length; index++) {
+    const fill = summarize(fillCheapestFirst(candidatesByVenue[index], side, quantity), side)
+    const candidate = { venue: books[index].data.venue, ...fill }
+    if (candidate.filledQuantity > 0 && (!single || isCheaper(side, candidate, single))) {
+      single = candidate
+    }
+  }
+
+  // A thin single venue fills less than the route, and the extra size the route takes deeper in the books costs more
+  // per unit, so the two are compared over the size the single venue can fill
+  const comparableQuantity = single ? Math.min(single.filledQuantity, routed.filledQuantity) : 0
+  const comparableRoute =
+    comparableQuantity < routed.filledQuantity
+      ? summarize(fillCheapestFirst(candidatesByVenue.flat(), side, comparableQuantity), side)
+      : routed
+  const perUnitSaving = single
+    ? side === "buy"
+      ? single.allInPrice - comparableRoute.allInPrice
+      : comparableRoute.allInPrice - single.allInPrice
+    : 0
+  const savings = perUnitSaving * comparableQuantity
+  const fillPrices = fills.map((fill) => fill.price)
+
+  return {
+    side,
+    quantity,
+    ...routed,
+    children,
+    bestPrice: side === "buy" ? Math.min(...fillPrices) : Math.max(...fillPrices),
+    worstPrice: side === "buy" ? Math.max(...fillPrices) : Math.min(...fillPrices),
+    bestSingleVenue: single,
+    comparableQuantity,
+    savings,
+    savingsBps: single && single.allInPrice > 0 ? (perUnitSaving / single.allInPrice) * 10000 : 0,
+  }
+}
@@ -0,0 +1,136 @@
+import type { BookLevelChange, BookUpdate, OrderbookData, OrderbookLevel, Venue } from "../types/orderbook"
+
+export interface BookLevel extends OrderbookLevel {
+  raw?: [price: string, quantity: string]
+}
+
+export interface LocalOrderbook {
+  venue: Venue
+  // Canonical symbol the book was created for; updates carry the venue's own instrument name
+  symbol: string
+  // Bids are kept sorted by price descending, asks ascending, so index 0 is always top of book
+  bids: BookLevel[]
+  asks: BookLevel[]
+  timestamp: number
+  // Sequence id of the last applied update, for venues that publish one
+  sequence?: number
+  // False until the first snapshot has been applied; deltas before that are meaningless
+  ready: boolean
+  // True between a snapshot and the first delta applied on top of it
+  bridging: boolean
+}
+
+export function createLocalOrderbook(venue: Venue, symbol: string): LocalOrderbook {
+  return { venue, symbol, bids: [], asks: [], timestamp: 0, ready: false, bridging: false }
+}
+
+// Binary search for a price in a sorted side. Returns the index of the level if present,
+// otherwise the index at which it would have to be inserted to keep the side sorted.
+function findLevel(levels: BookLevel[], price: number, descending: boolean) {
+  let low = 0
+  let high = levels.length
+
+  while (low < high) {
+    const mid = (low + high) >>> 1
+    const levelPrice = levels[mid].price
+    if (levelPrice === price) {
+      return { index: mid, found: true }
+    }
+    if (descending ? levelPrice > price : levelPrice < price) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+
+  return { index: low, found: false }
+}
+
+function applyLevelChange(levels: BookLevel[], change: BookLevelChange, descending: boolean) {
+  const { index, found } = findLevel(levels, change.price, descending)
+
+  if (change.action === "delete" || change.quantity <= 0) {
+    if (found) {
+      levels.splice(index, 1)
+    }
+    return
+  }
+
+  // Levels are replaced rather than mutated so that data already handed to React never changes underneath it
+  const level: BookLevel = { price: change.price, quantity: change.quantity }
+  if (change.raw) {
+    level.raw = change.raw
+  }
+  if (found) {
+    levels[index] = level
+  } else {
+    levels.splice(index, 0, level)
+  }
+}
+
+export function applyBookUpdate(book: LocalOrderbook, update: BookUpdate): boolean {
+  if (update.type === "snapshot") {
+    book.bids = []
+    book.asks = []
+    book.ready = true
+  } else if (!book.ready) {
+    return false
+  } else if (update.sequence !== undefined && book.sequence !== undefined && update.sequence <= book.sequence) {
+    // Already contained in the snapshot, which happens when the snapshot is fetched separately from the stream. This
+    // compares the delta's final id (Binance `u`) with the snapshot's lastUpdateId, following Binance's rule to drop
+    // any event whose `u` the snapshot covers. The first event after the snapshot straddles lastUpdateId (spot:
+    // `U <= lastUpdateId + 1 <= u`, USD-M: `U <= lastUpdateId <= u`) and is applied as soon as its `u` is past
+    // lastUpdateId; one ending exactly on lastUpdateId only repeats levels the snapshot already holds.
+    return false
+  }
+
+  for (const change of update.bids) {
+    applyLevelChange(book.bids, change, true)
+  }
+  for (const change of update.asks) {
+    applyLevelChange(book.asks, change, false)
+  }
+
+  book.timestamp = update.timestamp
+  book.sequence = update.sequence ?? book.sequence
+  book.bridging = update.type === "snapshot"
+  return true
+}
+
+// A delta that does not follow on from the last applied update means at least one message was lost.
+// Snapshots fetched over REST only say which update they include up to, so the first delta on top of one
+// has to straddle that id instead of continuing from it exactly.
+export function isSequenceGap(book: LocalOrderbook, update: BookUpdate) {
+  if (update.type !== "delta" || !book.ready || book.sequence === undefined) return false
+  if (book.bridging && update.firstSequence !== undefined) {
+    // USD-M ids are not contiguous, so after a snapshot that ends exactly on an event's `u` the next delta can start
+    // past lastUpdateId + 1 while its `pu` still names the snapshot
+    if (update.prevSequence === book.sequence) return false
+    return update.firstSequence > book.sequence + 1
+  }
+  return update.prevSequence !== undefined && update.prevSequence !== book.sequence
+}
+
+export function truncateLocalOrderbook(book: LocalOrderbook, depth: number) {
+  if (book.bids.length > depth) book.bids.length = depth
+  if (book.asks.length > depth) book.asks.length = depth
+}
+
+// Drops every level and waits for a fresh snapshot, used when the local book can no longer be trusted
+export function resetLocalOrderbook(book: LocalOrderbook) {
+  book.bids = []
+  book.asks = []
+  book.sequence = undefined
+  book.ready = false
+  book.bridging = false
+}
+
+export function toOrderbookData(book: LocalOrderbook, depth?: number): OrderbookData {
+  return {
+    bids: depth === undefined ? book.bids.slice() : book.bids.slice(0, depth),
+    asks: depth === undefined ? book.asks.slice() : book.asks.slice(0, depth),
+    timestamp: book.timestamp,
+    symbol: book.symbol,
+    venue: book.venue,
+  }
+}
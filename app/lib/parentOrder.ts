@@ -0,0 +1,229 @@
+import type { InstrumentSpec } from "../types/instrument"
+import type {
+  ChildFill,
+  ExecutionCost,
+  OrderbookData,
+  OrderbookLevel,
+  ParentOrderExecution,
+  ParentOrderParams,
+  ParentOrderStrategy,
+  SimulatedOrder,
+  VolumeCurve,
+} from "../types/orderbook"
+import { bookLevelsFor, measureExecutionCost, sweepLevels } from "./execution"
+import type { FeeRates } from "./fees"
+
+export const PARENT_ORDER_STRATEGIES: ParentOrderStrategy[] = ["twap", "vwap", "pov"]
+
+export const STRATEGY_LABELS: Record<ParentOrderStrategy, string> = {
+  twap: "TWAP",
+  vwap: "VWAP curve",
+  pov: "POV",
+}
+
+export const VOLUME_CURVES: VolumeCurve[] = ["u-shape", "front-loaded", "back-loaded"]
+
+export const VOLUME_CURVE_LABELS: Record<VolumeCurve, string> = {
+  "u-shape": "U-shape",
+  "front-loaded": "Front-loaded",
+  "back-loaded": "Back-loaded",
+}
+
+export const DEFAULT_PARENT_ORDER_PARAMS: ParentOrderParams = {
+  strategy: "twap",
+  horizonSeconds: 60,
+  slices: 12,
+  participationRate: 0.1,
+  curve: "u-shape",
+  source: "live",
+}
+
+// Relative volume expected at each point of the horizon, 0 at the start and 1 at the end. The U-shape follows the
+// heavier trading usual around the open and close of a session.
+const CURVE_SHAPES: Record<VolumeCurve, (t: number) => number> = {
+  "u-shape": (t) => 1 + 4 * (t - 0.5) ** 2,
+  "front-loaded": (t) => 2 - 1.5 * t,
+  "back-loaded": (t) => 0.5 + 1.5 * t,
+}
+
+// Size left below this fraction of the parent counts as done, so float rounding does not send an empty last child
+const FILL_TOLERANCE = 1e-9
+
+// Share of the parent each child is scheduled to take; TWAP splits it evenly, VWAP along the volume curve
+export function scheduleWeights({ strategy, slices, curve }: ParentOrderParams): number[] {
+  const shape = strategy === "vwap" ? CURVE_SHAPES[curve] : () => 1
+  const raw = Array.from({ length: slices }, (_, index) => shape((index + 0.5) / slices))
+  const total = raw.reduce((sum, weight) => sum + weight, 0)
+  return raw.map((weight) => weight / total)
+}
+
+// TWAP and VWAP send their first child on arrival; POV waits one interval to see some volume first
+export function childOffsetSeconds({ strategy, horizonSeconds, slices }: ParentOrderParams, index: number) {
+  const interval = horizonSeconds / slices
+  return strategy === "pov" ? (index + 1) * interval : index * interval
+}
+
+function midOf(book: OrderbookData) {
+  const bestBid = book.bids[0]?.price
+  const bestAsk = book.asks[0]?.price
+  return bestBid !== undefined && bestAsk !== undefined ? (bestBid + bestAsk) / 2 : null
+}
+
+// Size gone from one side between two books: levels the touch moved through, plus any shrink at a touch that held.
+// Without a trade feed this is read as traded volume, as the queue model does.
+function sideVolume(previous: OrderbookLevel[], next: OrderbookLevel[], isBid: boolean) {
+  const touch = next[0]
+  let volume = 0
+  for (const level of previous) {
+    if (!touch) {
+      volume += level.quantity
+    } else if (level.price === touch.price) {
+      volume += Math.max(0, level.quantity - touch.quantity)
+      break
+    } else if (isBid ? level.price > touch.price : level.price < touch.price) {
+      volume += level.quantity
+    } else {
+      break
+    }
+  }
+  return volume
+}
+
+export function inferTradedVolume(previous: OrderbookData, next: OrderbookData) {
+  return sideVolume(previous.bids, next.bids, true) + sideVolume(previous.asks, next.asks, false)
+}
+
+export function startParentOrder(
+  parent: SimulatedOrder,
+  params: ParentOrderParams,
+  book: OrderbookData,
+  now: number,
+): ParentOrderExecution | null {
+  const arrivalMid = midOf(book)
+  if (arrivalMid === null) return null
+  return {
+    params,
+    parent,
+    startedAt: now,
+    arrivalBook: book,
+    arrivalMid,
+    children: [],
+    filledQuantity: 0,
+    averagePrice: 0,
+    pendingVolume: 0,
+  }
+}
+
+function sendChild(execution: ParentOrderExecution, book: OrderbookData, offsetSeconds: number): ParentOrderExecution {
+  const { params, parent, children, filledQuantity } = execution
+  const remaining = parent.quantity - filledQuantity
+  const isLast = children.length === params.slices - 1
+
+  // Scheduled children catch up on anything earlier ones left unfilled; POV sizes each child so that it makes up the
+  // target share of the volume traded since the last one, own fills included
+  let targetQuantity: number
+  if (params.strategy === "pov") {
+    const rate = Math.min(params.participationRate, 0.99)
+    targetQuantity = Math.min(remaining, (execution.pendingVolume * rate) / (1 - rate))
+  } else {
+    const scheduled = scheduleWeights(params)
+      .slice(0, children.length + 1)
+      .reduce((sum, weight) => sum + weight, 0)
+    targetQuantity = isLast ? remaining : Math.min(remaining, Math.max(0, parent.quantity * scheduled - filledQuantity))
+  }
+
+  const limit =
+    parent.type === "limit" && parent.price !== undefined ? { side: parent.side, price: parent.price } : undefined
+  const sweep =
+    targetQuantity > 0
+      ? sweepLevels(bookLevelsFor(book, parent.side), targetQuantity, limit)
+      : { filledQuantity: 0, averagePrice: 0, worstPrice: 0 }
+
+  const child: ChildFill = {
+    offsetSeconds,
+    targetQuantity,
+    filledQuantity: sweep.filledQuantity,
+    averagePrice: sweep.averagePrice,
+    midPrice: midOf(book) ?? execution.arrivalMid,
+    marketVolume: params.strategy === "pov" ? execution.pendingVolume : undefined,
+  }
+  const totalFilled = filledQuantity + sweep.filledQuantity
+  return {
+    ...execution,
+    children: [...children, child],
+    filledQuantity: totalFilled,
+    averagePrice:
+      totalFilled > 0
+        ? (execution.averagePrice * filledQuantity + sweep.averagePrice * sweep.filledQuantity) / totalFilled
+        : 0,
+    pendingVolume: 0,
+  }
+}
+
+// Moves the parent order on to a new book: counts the volume traded since the previous book for POV, then sends every
+// child that has come due. Each child sees the book as it stands when it is sent; the simulator does not take its
+// fills out of the book that later children see. Returns the same execution when nothing changed.
+export function advanceParentOrder(
+  execution: ParentOrderExecution,
+  previousBook: OrderbookData | null,
+  book: OrderbookData,
+  now: number,
+): ParentOrderExecution {
+  if (execution.completedAt !== undefined) return execution
+
+  let next = execution
+  if (execution.params.strategy === "pov" && previousBook && previousBook !== book) {
+    const volume = inferTradedVolume(previousBook, book)
+    if (volume > 0) next = { ...next, pendingVolume: next.pendingVolume + volume }
+  }
+
+  const elapsedSeconds = (now - execution.startedAt) / 1000
+  while (next.children.length < next.params.slices) {
+    const offsetSeconds = childOffsetSeconds(next.params, next.children.length)
+    if (offsetSeconds > elapsedSeconds + FILL_TOLERANCE) break
+    next = sendChild(next, book, offsetSeconds)
+    if (next.parent.quantity - next.filledQuantity <= next.parent.quantity * FILL_TOLERANCE) break
+  }
+
+  const isDone =
+    next.children.length >= next.params.slices ||
+    next.parent.quantity - next.filledQuantity <= next.parent.quantity * FILL_TOLERANCE
+  return isDone ? { ...next, completedAt: now } : next
+}
+
+// Runs the parent order over recorded books, oldest first, as if it had started at the first of them. The last book
+// stands in for the end of the horizon so that children due after it still go out.
+export function replayParentOrder(
+  parent: SimulatedOrder,
+  params: ParentOrderParams,
+  history: { time: number; book: OrderbookData }[],
+): ParentOrderExecution | null {
+  if (history.length === 0) return null
+  let execution = startParentOrder(parent, params, history[0].book, history[0].time)
+  if (!execution) return null
+
+  for (let index = 0; index < history.length; index++) {
+    const previous = index > 0 ? history[index - 1].book : null
+    execution = advanceParentOrder(execution, previous, history[index].book, history[index].time)
+  }
+  const last = history[history.length - 1].book
+  return advanceParentOrder(execution, last, last, execution.startedAt + params.horizonSeconds * 1000)
+}
+
+// The children's combined fill priced against the arrival mid, paying the taker fee on every child
+export function parentOrderCost(
+  execution: ParentOrderExecution,
+  fees: FeeRates,
+  spec: InstrumentSpec | null,
+): ExecutionCost | null {
+  return measureExecutionCost({
+    orderbookData: execution.arrivalBook,
+    side: execution.parent.side,
+    filledQuantity: execution.filledQuantity,
+    averagePrice: execution.averagePrice,
+    liquidity: "taker",
+    fees,
+    spec,
+    arrivalPrice: execution.arrivalMid,
+  })
+}
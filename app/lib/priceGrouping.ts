@@ -0,0 +1,108 @@
+import type { OrderbookData, OrderbookLevel } from "../types/orderbook"
+
+// A fixed price step, or a step sized as a fraction of the mid price in basis points
+export type PriceGrouping = { mode: "none" } | { mode: "price"; step: number } | { mode: "bps"; bps: number }
+
+export const PRICE_GROUPING_STEPS = [0.1, 1, 10, 50, 100]
+export const PRICE_GROUPING_BPS = [1, 5, 10]
+
+export function formatPriceGrouping(grouping: PriceGrouping) {
+  switch (grouping.mode) {
+    case "none":
+      return "Raw"
+    case "price":
+      return String(grouping.step)
+    case "bps":
+      return `${grouping.bps} bps`
+  }
+}
+
+// Select values are strings, e.g. "none", "price:10" or "bps:5"
+export function encodePriceGrouping(grouping: PriceGrouping) {
+  switch (grouping.mode) {
+    case "none":
+      return "none"
+    case "price":
+      return `price:${grouping.step}`
+    case "bps":
+      return `bps:${grouping.bps}`
+  }
+}
+
+export function decodePriceGrouping(value: string): PriceGrouping {
+  const [mode, amount] = value.split(":")
+  const parsed = Number.parseFloat(amount)
+  if (mode === "price" && parsed > 0) return { mode: "price", step: parsed }
+  if (mode === "bps" && parsed > 0) return { mode: "bps", bps: parsed }
+  return { mode: "none" }
+}
+
+// Rounds up to 1, 2 or 5 times a power of ten, so a bps step does not move the bucket edges every time the mid does
+function toNiceStep(value: number) {
+  const magnitude = 10 ** Math.floor(Math.log10(value))
+  const normalized = value / magnitude
+  const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10
+  return nice * magnitude
+}
+
+// Price step for a grouping at the current mid, never finer than the instrument's tick. Null means no grouping.
+export function resolveGroupingStep(grouping: PriceGrouping, midPrice: number, tickSize = 0) {
+  let step: number
+  if (grouping.mode === "price") {
+    step = grouping.step
+  } else if (grouping.mode === "bps" && midPrice > 0) {
+    step = toNiceStep((midPrice * grouping.bps) / 10000)
+  } else {
+    return null
+  }
+  return step > tickSize ? step : null
+}
+
+function decimalsOf(step: number) {
+  const text = String(step)
+  if (text.includes("e-")) return Number.parseInt(text.split("e-")[1])
+  return text.includes(".") ? text.split(".")[1].length : 0
+}
+
+// Rounding goes away from the mid, down for bids and up for asks, so a grouped level never shows a better price than
+// any order inside it
+function bucketPrice(price: number, step: number, side: "bid" | "ask", decimals: number) {
+  // The epsilon keeps prices that sit exactly on a bucket edge from being pushed into the next one
+  const units = price / step
+  const bucket = side === "bid" ? Math.floor(units + 1e-9) : Math.ceil(units - 1e-9)
+  return Number((bucket * step).toFixed(decimals))
+}
+
+// The grouped level a price is shown in, or the price itself when the book is not grouped
+export function groupPrice(price: number, step: number | null, side: "bid" | "ask") {
+  return step ? bucketPrice(price, step, side, decimalsOf(step)) : price
+}
+
+// Buckets one side into multiples of the step
+export function groupLevels(levels: OrderbookLevel[], step: number, side: "bid" | "ask"): OrderbookLevel[] {
+  const decimals = decimalsOf(step)
+  const grouped: OrderbookLevel[] = []
+
+  for (const level of levels) {
+    const price = bucketPrice(level.price, step, side, decimals)
+
+    // Levels arrive sorted, so a bucket only ever continues the last one
+    const last = grouped[grouped.length - 1]
+    if (last && last.price === price) {
+      last.quantity += level.quantity
+    } else {
+      grouped.push({ price, quantity: level.quantity })
+    }
+  }
+
+  return grouped
+}
+
+export function groupOrderbook(data: OrderbookData, step: number | null): OrderbookData {
+  if (!step) return data
+  return {
+    ...data,
+    bids: groupLevels(data.bids, step, "bid"),
+    asks: groupLevels(data.asks, step, "ask"),
+  }
+}
@@ -0,0 +1,146 @@
+import type { OrderbookData, QueuePosition } from "../types/orderbook"
+import type { OrderSide } from "./execution"
+
+export const QUEUE_HORIZONS_SECONDS = [5, 10, 30]
+
+// Estimates are otherwise refreshed only when the queue moves; this keeps the rates decaying through quiet periods
+const ESTIMATE_REFRESH_MS = 1000
+
+function ownLevels(book: OrderbookData, side: OrderSide) {
+  return side === "buy" ? book.bids : book.asks
+}
+
+function crossingSize(book: OrderbookData, side: OrderSide, price: number) {
+  let total = 0
+  for (const level of side === "buy" ? book.asks : book.bids) {
+    if (side === "buy" ? level.price > price : level.price < price) break
+    total += level.quantity
+  }
+  return total
+}
+
+export function displayedSizeAt(book: OrderbookData, side: OrderSide, price: number) {
+  return ownLevels(book, side).find((level) => Math.abs(level.price - price) < 1e-9)?.quantity ?? 0
+}
+
+// P(N >= k) for N ~ Poisson(mean)
+function poissonTail(mean: number, k: number) {
+  if (k <= 0) return 1
+  if (mean <= 0) return 0
+  if (k > mean + 10 * Math.sqrt(mean) + 20) return 0
+  let term = Math.exp(-mean)
+  let below = term
+  for (let i = 1; i < k; i++) {
+    term *= mean / i
+    below += term
+  }
+  return Math.max(0, 1 - below)
+}
+
+// Trades are modelled as a Poisson stream of events of the average observed size. Events are counted per book update
+// that shrinks the level, so coalesced updates under-count them while keeping the traded volume.
+function withEstimates(position: QueuePosition, now: number): QueuePosition {
+  const remaining = position.sizeAhead + position.quantity - position.filledQuantity
+  const elapsedSeconds = Math.max((now - position.placedAt) / 1000, 1e-3)
+  const volumeRate = position.tradedVolume / elapsedSeconds
+  const eventRate = position.tradeEvents / elapsedSeconds
+  const averageTradeSize = position.tradeEvents > 0 ? position.tradedVolume / position.tradeEvents : 0
+
+  const fillProbability: Record<number, number> = {}
+  for (const horizon of QUEUE_HORIZONS_SECONDS) {
+    fillProbability[horizon] =
+      remaining <= 0
+        ? 1
+        : averageTradeSize > 0
+          ? poissonTail(eventRate * horizon, Math.ceil(remaining / averageTradeSize))
+          : 0
+  }
+
+  return {
+    ...position,
+    updatedAt: now,
+    expectedTimeToFill: remaining <= 0 ? 0 : volumeRate > 0 ? remaining / volumeRate : null,
+    fillProbability,
+  }
+}
+
+// Places a resting order at the back of the queue at its price
+export function joinQueue(
+  book: OrderbookData,
+  side: OrderSide,
+  price: number,
+  quantity: number,
+  now: number,
+): QueuePosition {
+  const displayedSize = displayedSizeAt(book, side, price)
+  return withEstimates(
+    {
+      side,
+      price,
+      quantity,
+      placedAt: now,
+      updatedAt: now,
+      initialSizeAhead: displayedSize,
+      sizeAhead: displayedSize,
+      displayedSize,
+      crossedSize: crossingSize(book, side, price),
+      filledQuantity: 0,
+      tradedVolume: 0,
+      cancelledVolume: 0,
+      tradeEvents: 0,
+      expectedTimeToFill: null,
+      fillProbability: {},
+    },
+    now,
+  )
+}
+
+// Moves the queue on by one book update. Without a trade feed, a level that shrinks at the touch is taken as trades,
+// as is new other-side size arriving at or through the price; both work through the queue from the front. A level
+// that shrinks behind the touch can only have been cancelled, and cancels are spread evenly over the size ahead of and
+// behind the order. Returns the same position when nothing moved.
+export function advanceQueue(position: QueuePosition, book: OrderbookData, now: number): QueuePosition {
+  const { side, price, quantity } = position
+  if (position.filledQuantity >= quantity) return position
+
+  const displayedSize = displayedSizeAt(book, side, price)
+  const crossedSize = crossingSize(book, side, price)
+  const touch = ownLevels(book, side)[0]
+  const isAtTouch = !touch || (side === "buy" ? touch.price <= price : touch.price >= price)
+  const decrease = Math.max(0, position.displayedSize - displayedSize)
+  const traded = (isAtTouch ? decrease : 0) + Math.max(0, crossedSize - position.crossedSize)
+
+  let { sizeAhead, filledQuantity, tradedVolume, cancelledVolume, tradeEvents } = position
+  if (traded > 0) {
+    tradedVolume += traded
+    tradeEvents += 1
+    filledQuantity = Math.min(quantity, filledQuantity + Math.max(0, traded - sizeAhead))
+    sizeAhead = Math.max(0, sizeAhead - traded)
+  }
+  if (decrease > 0 && !isAtTouch) {
+    cancelledVolume += decrease
+    sizeAhead -= decrease * (sizeAhead / position.displayedSize)
+  }
+  sizeAhead = Math.min(sizeAhead, displayedSize)
+
+  const moved =
+    displayedSize !== position.displayedSize ||
+    crossedSize !== position.crossedSize ||
+    sizeAhead !== position.sizeAhead ||
+    filledQuantity !== position.filledQuantity
+  if (!moved && now - position.updatedAt < ESTIMATE_REFRESH_MS) return position
+
+  return withEstimates(
+    {
+      ...position,
+      displayedSize,
+      crossedSize,
+      sizeAhead,
+      filledQuantity,
+      tradedVolume,
+      cancelledVolume,
+      tradeEvents,
+    },
+    now,
+  )
+}
@@ -0,0 +1,31 @@
+import type { OrderbookData, OrderbookLevel } from "../types/orderbook"
+
+// Levels whose price and size did not change keep the object from the previous book, and a side with no changes at
+// all keeps its array, so memoized rows and derived values can skip work by comparing identities
+export function shareLevels(previous: OrderbookLevel[], next: OrderbookLevel[]): OrderbookLevel[] {
+  const previousByPrice = new Map(previous.map((level) => [level.price, level]))
+  let unchanged = previous.length === next.length
+
+  const shared = next.map((level, index) => {
+    const match = previousByPrice.get(level.price)
+    if (match && match.quantity === level.quantity) {
+      if (previous[index] !== match) unchanged = false
+      return match
+    }
+    unchanged = false
+    return level
+  })
+
+  return unchanged ? previous : shared
+}
+
+// Returns the previous book itself when neither side changed
+export function shareOrderbookData(previous: OrderbookData | null, next: OrderbookData | null) {
+  if (!previous || !next || previous === next) return next
+  if (previous.venue !== next.venue || previous.symbol !== next.symbol) return next
+
+  const bids = shareLevels(previous.bids, next.bids)
+  const asks = shareLevels(previous.asks, next.asks)
+  if (bids === previous.bids && asks === previous.asks) return previous
+  return { ...next, bids, asks }
+}
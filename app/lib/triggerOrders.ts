@@ -0,0 +1,59 @@
+import type { OrderbookData, PriceTicker, TriggerOrder, TriggerOrderType, TriggerPriceSource } from "../types/orderbook"
+
+export const TRIGGER_ORDER_TYPES: TriggerOrderType[] = ["stop-market", "stop-limit", "take-profit"]
+
+export const TRIGGER_TYPE_LABELS: Record<TriggerOrderType, string> = {
+  "stop-market": "Stop market",
+  "stop-limit": "Stop limit",
+  "take-profit": "Take profit",
+}
+
+export const TRIGGER_PRICE_SOURCES: TriggerPriceSource[] = ["last", "mid", "mark"]
+
+export function isTriggerOrderType(type: string): type is TriggerOrderType {
+  return (TRIGGER_ORDER_TYPES as string[]).includes(type)
+}
+
+export function referencePrice(
+  source: TriggerPriceSource,
+  book: OrderbookData | null,
+  ticker: PriceTicker | null,
+): number | null {
+  if (source === "mid") {
+    const bestBid = book?.bids[0]?.price
+    const bestAsk = book?.asks[0]?.price
+    return bestBid !== undefined && bestAsk !== undefined ? (bestBid + bestAsk) / 2 : null
+  }
+  return (source === "last" ? ticker?.last : ticker?.mark) ?? null
+}
+
+// Stops fire when the price moves through them against the position they protect, so a buy stop fires on a rise and
+// a sell stop on a fall. Take-profits fire the other way round.
+export function triggerDirection({ type, side }: Pick<TriggerOrder, "type" | "side">): "rising" | "falling" {
+  return (type !== "take-profit") === (side === "buy") ? "rising" : "falling"
+}
+
+export function isTriggered(trigger: Pick<TriggerOrder, "type" | "side" | "triggerPrice">, price: number) {
+  return triggerDirection(trigger) === "rising" ? price >= trigger.triggerPrice : price <= trigger.triggerPrice
+}
+
+// Why a trigger order cannot be armed, or null when it can. Venues refuse one that would fire as soon as it is placed.
+export function validateTrigger(trigger: TriggerOrder, price: number | null): string | null {
+  if (!(trigger.quantity > 0) || !(trigger.triggerPrice > 0)) return "Enter a quantity and a trigger price"
+  if (trigger.type === "stop-limit" && !(trigger.limitPrice! > 0)) return "A stop-limit needs a limit price"
+  if (price === null) return `No ${trigger.priceSource} price is streamed for ${trigger.symbol} on ${trigger.venue}`
+  if (isTriggered(trigger, price)) {
+    return `Would trigger immediately: ${trigger.priceSource} $${price.toFixed(2)} is already ${
+      triggerDirection(trigger) === "rising" ? "at or above" : "at or below"
+    } $${trigger.triggerPrice.toFixed(2)}`
+  }
+  return null
+}
+
+export function describeTrigger(trigger: TriggerOrder) {
+  const comparison = triggerDirection(trigger) === "rising" ? "≥" : "≤"
+  const limit = trigger.limitPrice !== undefined ? `, limit $${trigger.limitPrice.toFixed(2)}` : ""
+  return `${TRIGGER_TYPE_LABELS[trigger.type]} ${trigger.side} ${trigger.quantity.toFixed(4)} when ${
+    trigger.priceSource
+  } ${comparison} $${trigger.triggerPrice.toFixed(2)}${limit}`
+}
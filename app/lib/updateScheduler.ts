@@ -0,0 +1,77 @@
+// "frame" flushes once per display frame; a number flushes at most that many times a second
+export type UpdateRate = "frame" | number
+
+export const UPDATE_RATE_HZ_OPTIONS = [1, 5, 10, 20, 30]
+
+// How often the worker posts the book when updates follow display frames
+const FRAME_SNAPSHOT_FPS = 60
+
+export function formatUpdateRate(rate: UpdateRate) {
+  return rate === "frame" ? "Every frame" : `${rate} Hz`
+}
+
+// Select values are strings, "frame" or the rate in Hz
+export function decodeUpdateRate(value: string): UpdateRate {
+  const hz = Number(value)
+  return value !== "frame" && hz > 0 ? hz : "frame"
+}
+
+// The worker never needs to post more often than the UI flushes
+export function toSnapshotFps(rate: UpdateRate) {
+  return rate === "frame" ? FRAME_SNAPSHOT_FPS : rate
+}
+
+export interface UpdateScheduler {
+  // Asks for a flush; any number of calls before it runs collapse into one
+  schedule: () => void
+  setRate: (rate: UpdateRate) => void
+  cancel: () => void
+}
+
+export function createUpdateScheduler(rate: UpdateRate, flush: () => void): UpdateScheduler {
+  let currentRate = rate
+  let frameRequest: number | null = null
+  let timeout: ReturnType<typeof setTimeout> | null = null
+  let lastFlushAt = 0
+
+  const run = () => {
+    frameRequest = null
+    timeout = null
+    lastFlushAt = performance.now()
+    flush()
+  }
+
+  const cancel = () => {
+    if (frameRequest !== null) {
+      cancelAnimationFrame(frameRequest)
+      frameRequest = null
+    }
+    if (timeout) {
+      clearTimeout(timeout)
+      timeout = null
+    }
+  }
+
+  const schedule = () => {
+    if (frameRequest !== null || timeout) return
+    if (currentRate === "frame") {
+      frameRequest = requestAnimationFrame(run)
+    } else {
+      // The first change after a quiet spell goes out right away, later ones wait for the interval to pass
+      const wait = lastFlushAt + 1000 / currentRate - performance.now()
+      timeout = setTimeout(run, Math.max(0, wait))
+    }
+  }
+
+  return {
+    schedule,
+    setRate: (next) => {
+      if (next === currentRate) return
+      const pending = frameRequest !== null || timeout !== null
+      cancel()
+      currentRate = next
+      if (pending) schedule()
+    },
+    cancel,
+  }
+}
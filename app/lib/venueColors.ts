@@ -0,0 +1,11 @@
+import type { Venue } from "../types/orderbook"
+
+// One colour per venue wherever several venues share a chart or ladder
+export const VENUE_COLORS: Record<Venue, string> = {
+  OKX: "#6366f1",
+  Bybit: "#f59e0b",
+  Deribit: "#10b981",
+  Binance: "#eab308",
+  Coinbase: "#3b82f6",
+  Kraken: "#a855f7",
+}
@@ -0,0 +1,75 @@
+import type { InstrumentSpec } from "../types/instrument"
+import type { OrderbookData, OrderbookLevel, Venue } from "../types/orderbook"
+import { toBaseQuantity, type VenueBook } from "./consolidatedBook"
+
+// Bands around the mid, in basis points, that resting depth is measured within
+export const DEPTH_BANDS_BPS = [10, 25, 50]
+
+export interface VenueMetrics {
+  venue: Venue
+  mid: number
+  spread: number
+  spreadBps: number
+  // Sizes are in base units so venues with contract-sized books compare directly
+  topBidSize: number
+  topAskSize: number
+  // Bid and ask size resting within each band of DEPTH_BANDS_BPS
+  depthWithin: Record<number, { bid: number; ask: number }>
+  // Distance of this venue's mid from the median mid across the compared venues
+  midDeviationBps: number
+}
+
+function depthWithin(levels: OrderbookLevel[], spec: InstrumentSpec | null, isInside: (price: number) => boolean) {
+  let total = 0
+  // Levels are sorted from the touch outwards, so the first one outside the band ends the walk
+  for (const level of levels) {
+    if (!isInside(level.price)) break
+    total += toBaseQuantity(level.quantity, level.price, spec)
+  }
+  return total
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+function measureBook(data: OrderbookData, spec: InstrumentSpec | null): Omit<VenueMetrics, "midDeviationBps"> | null {
+  const bestBid = data.bids[0]
+  const bestAsk = data.asks[0]
+  if (!bestBid || !bestAsk) return null
+
+  const mid = (bestBid.price + bestAsk.price) / 2
+  const spread = bestAsk.price - bestBid.price
+  const bands: VenueMetrics["depthWithin"] = {}
+  for (const bps of DEPTH_BANDS_BPS) {
+    const offset = (mid * bps) / 10000
+    bands[bps] = {
+      bid: depthWithin(data.bids, spec, (price) => price >= mid - offset),
+      ask: depthWithin(data.asks, spec, (price) => price <= mid + offset),
+    }
+  }
+
+  return {
+    venue: data.venue,
+    mid,
+    spread,
+    spreadBps: (spread / mid) * 10000,
+    topBidSize: toBaseQuantity(bestBid.quantity, bestBid.price, spec),
+    topAskSize: toBaseQuantity(bestAsk.quantity, bestAsk.price, spec),
+    depthWithin: bands,
+  }
+}
+
+// Metrics for every venue with a two-sided book, in the order given
+export function compareVenues(books: VenueBook[]): VenueMetrics[] {
+  const measured = books.flatMap(({ data, spec }) => {
+    const metrics = measureBook(data, spec)
+    return metrics ? [metrics] : []
+  })
+  if (measured.length === 0) return []
+
+  const medianMid = median(measured.map((metrics) => metrics.mid))
+  return measured.map((metrics) => ({ ...metrics, midDeviationBps: ((metrics.mid - medianMid) / medianMid) * 10000 }))
+}
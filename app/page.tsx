@@ -1,27 +1,119 @@
 "use client"
 
-import { useState } from "react"
+import { useCallback, useMemo, useRef, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import OrderbookDisplay from "./components/OrderbookDisplay"
 import OrderSimulationForm from "./components/OrderSimulationForm"
 import MarketDepthChart from "./components/MarketDepthChart"
-import { useOrderbookData } from "./hooks/useOrderbookData"
-import type { Venue, SimulatedOrder } from "./types/orderbook"
-import { Activity, Wifi, WifiOff, TrendingUp } from "lucide-react"
+import FeedReliability from "./components/FeedReliability"
+import ConnectionStatus from "./components/ConnectionStatus"
+import ConsolidatedOrderbook from "./components/ConsolidatedOrderbook"
+import VenueComparison from "./components/VenueComparison"
+import PerfOverlay, { type RenderCounts } from "./components/PerfOverlay"
+import { DEFAULT_STALE_AFTER_MS, DEFAULT_UPDATE_RATE, useOrderbookData } from "./hooks/useOrderbookData"
+import { useInstrumentCatalog } from "./hooks/useInstrumentCatalog"
+import { findInstrumentSpec } from "./lib/instrumentCatalog"
+import {
+  PRICE_GROUPING_BPS,
+  PRICE_GROUPING_STEPS,
+  decodePriceGrouping,
+  encodePriceGrouping,
+  formatPriceGrouping,
+  groupOrderbook,
+  resolveGroupingStep,
+  type PriceGrouping,
+} from "./lib/priceGrouping"
+import { UPDATE_RATE_HZ_OPTIONS, decodeUpdateRate, formatUpdateRate, type UpdateRate } from "./lib/updateScheduler"
+import { shareOrderbookData } from "./lib/structuralSharing"
+import { DEFAULT_FEE_SELECTION, type FeeSelection } from "./lib/fees"
+import { VENUES } from "./venues"
+import type { OrderbookData, Venue, SimulatedOrder, TriggerOrder } from "./types/orderbook"
+import { Activity, TrendingUp, ShieldCheck, ShieldAlert } from "lucide-react"
 
-const VENUES: Venue[] = ["OKX", "Bybit", "Deribit"]
+// Choices for how long a feed may stay silent before it is flagged as stale
+const STALE_WINDOWS_MS = [5000, 10000, 30000, 60000]
+const UPDATE_RATE_OPTIONS: UpdateRate[] = ["frame", ...UPDATE_RATE_HZ_OPTIONS]
 
 export default function OrderbookViewer() {
   const [selectedVenue, setSelectedVenue] = useState<Venue>("OKX")
   const [selectedSymbol, setSelectedSymbol] = useState("BTC-USDT")
   const [simulatedOrder, setSimulatedOrder] = useState<SimulatedOrder | null>(null)
+  const [armedTriggers, setArmedTriggers] = useState<TriggerOrder[]>([])
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [selectedMetric, setSelectedMetric] = useState<string | null>(null)
   const [showAdvancedMetrics, setShowAdvancedMetrics] = useState(false)
+  const [staleAfterMs, setStaleAfterMs] = useState(DEFAULT_STALE_AFTER_MS)
+  const [updateRate, setUpdateRate] = useState<UpdateRate>(DEFAULT_UPDATE_RATE)
+  const [showPerfOverlay, setShowPerfOverlay] = useState(false)
+  const [showConsolidated, setShowConsolidated] = useState(false)
+  const [showComparison, setShowComparison] = useState(false)
+  const renderCountsRef = useRef<RenderCounts>({ ladder: 0, chart: 0 })
+  const countLadderRender = useCallback(() => {
+    renderCountsRef.current.ladder += 1
+  }, [])
+  const countChartRender = useCallback(() => {
+    renderCountsRef.current.chart += 1
+  }, [])
+  // Subscribed depth per venue; venues without an entry use their default
+  const [depthByVenue, setDepthByVenue] = useState<Partial<Record<Venue, number>>>({})
+  const [priceGrouping, setPriceGrouping] = useState<PriceGrouping>({ mode: "none" })
+  const [feeSelection, setFeeSelection] = useState<FeeSelection>(DEFAULT_FEE_SELECTION)
 
-  const { orderbookData, isConnected, error, reconnect } = useOrderbookData(selectedVenue, selectedSymbol)
+  const { instruments, isLoading: isCatalogLoading } = useInstrumentCatalog(VENUES)
+  const instrumentSpec = useMemo(
+    () => findInstrumentSpec(instruments, selectedVenue, selectedSymbol),
+    [instruments, selectedVenue, selectedSymbol],
+  )
+  const {
+    orderbookData,
+    ticker,
+    isConnected,
+    depth,
+    depthOptions,
+    connectionState,
+    nextRetryAt,
+    retryAttempt,
+    maxRetries,
+    isStale,
+    isFeedStale,
+    lastUpdateAt,
+    throughputRef,
+    checksumFailures,
+    checksumVerified,
+    gapEvents,
+    error,
+    reconnect,
+    disconnect,
+  } = useOrderbookData(selectedVenue, selectedSymbol, instrumentSpec, {
+    staleAfterMs,
+    depth: depthByVenue[selectedVenue],
+    updateRate,
+  })
+
+  // The ladder and depth chart show grouped levels; the simulator keeps working on the raw book
+  const groupingStep = useMemo(() => {
+    const bestBid = orderbookData?.bids[0]?.price ?? 0
+    const bestAsk = orderbookData?.asks[0]?.price ?? 0
+    return resolveGroupingStep(priceGrouping, (bestBid + bestAsk) / 2, instrumentSpec?.tickSize)
+  }, [priceGrouping, orderbookData, instrumentSpec])
+  // Grouping builds new levels every time, so they are shared against the previous result again
+  const previousGroupedRef = useRef<OrderbookData | null>(null)
+  const groupedOrderbookData = useMemo(() => {
+    const grouped = orderbookData ? groupOrderbook(orderbookData, groupingStep) : null
+    previousGroupedRef.current = shareOrderbookData(previousGroupedRef.current, grouped)
+    return previousGroupedRef.current
+  }, [orderbookData, groupingStep])
+  const groupingOptions: PriceGrouping[] = [
+    { mode: "none" },
+    ...PRICE_GROUPING_STEPS.filter((step) => step > (instrumentSpec?.tickSize ?? 0)).map((step): PriceGrouping => ({
+      mode: "price",
+      step,
+    })),
+    ...PRICE_GROUPING_BPS.map((bps): PriceGrouping => ({ mode: "bps", bps })),
+  ]
 
   const handleOrderSimulation = (order: SimulatedOrder) => {
     setSimulatedOrder(order)
@@ -60,21 +152,53 @@ export default function OrderbookViewer() {
                 <span className="text-sm font-medium">Advanced Metrics</span>
               </button>
 
-              <div className="relative">
+              <button
+                onClick={() => setShowConsolidated(!showConsolidated)}
+                className="px-4 py-2 bg-slate-100 dark:bg-slate-800 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-all duration-200 hover:scale-105"
+              >
+                <span className="text-sm font-medium">Consolidated</span>
+              </button>
+
+              <button
+                onClick={() => setShowComparison(!showComparison)}
+                className="px-4 py-2 bg-slate-100 dark:bg-slate-800 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-all duration-200 hover:scale-105"
+              >
+                <span className="text-sm font-medium">Compare</span>
+              </button>
+
+              <button
+                onClick={() => setShowPerfOverlay(!showPerfOverlay)}
+                className="px-4 py-2 bg-slate-100 dark:bg-slate-800 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-700 transition-all duration-200 hover:scale-105"
+              >
+                <span className="text-sm font-medium">Perf</span>
+              </button>
+
+              {(checksumVerified || checksumFailures > 0) && (
                 <Badge
-                  variant={isConnected ? "default" : "destructive"}
-                  className={`flex items-center gap-2 transition-all duration-300 hover:scale-105 cursor-pointer ${
-                    isConnected ? "animate-pulse" : ""
+                  variant="outline"
+                  title="Checksum mismatches since subscribing; each one triggers a fresh snapshot"
+                  className={`flex items-center gap-1 text-xs ${
+                    checksumFailures > 0
+                      ? "border-amber-400 text-amber-700 dark:text-amber-400"
+                      : "text-slate-600 dark:text-slate-300"
                   }`}
-                  onClick={() => !isConnected && reconnect()}
                 >
-                  {isConnected ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
-                  {isConnected ? "Live" : "Disconnected"}
+                  {checksumFailures > 0 ? <ShieldAlert className="w-3 h-3" /> : <ShieldCheck className="w-3 h-3" />}
+                  {checksumFailures} checksum {checksumFailures === 1 ? "failure" : "failures"}
                 </Badge>
-                {isConnected && (
-                  <div className="absolute -top-1 -right-1 w-3 h-3 bg-green-400 rounded-full animate-ping" />
-                )}
-              </div>
+              )}
+
+              <ConnectionStatus
+                connectionState={connectionState}
+                isStale={isStale}
+                isFeedStale={isFeedStale}
+                lastUpdateAt={lastUpdateAt}
+                nextRetryAt={nextRetryAt}
+                retryAttempt={retryAttempt}
+                maxRetries={maxRetries}
+                onReconnect={reconnect}
+                onDisconnect={disconnect}
+              />
             </div>
           </div>
         </div>
@@ -84,17 +208,85 @@ export default function OrderbookViewer() {
         {/* Venue Selection */}
         <Card className="mb-6 shadow-xl border-0 bg-gradient-to-br from-white/80 to-slate-50/80 dark:from-slate-800/80 dark:to-slate-900/80 backdrop-blur-xl hover:shadow-2xl transition-all duration-500">
           <CardHeader className="pb-4">
-            <CardTitle className="flex items-center gap-2">
-              <div className="relative">
-                <Activity className="w-5 h-5 text-blue-600" />
-                <div className="absolute -inset-1 bg-blue-600/20 rounded-full animate-ping" />
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="flex items-center gap-2">
+                <div className="relative">
+                  <Activity className="w-5 h-5 text-blue-600" />
+                  <div className="absolute -inset-1 bg-blue-600/20 rounded-full animate-ping" />
+                </div>
+                Exchange Selection
+              </CardTitle>
+              <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+                <span>Depth</span>
+                <Select
+                  value={String(depth)}
+                  onValueChange={(value) =>
+                    setDepthByVenue((depths) => ({ ...depths, [selectedVenue]: Number(value) }))
+                  }
+                  disabled={depthOptions.length < 2}
+                >
+                  <SelectTrigger className="w-24 h-8 bg-white/80 dark:bg-slate-800/80">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {depthOptions.map((option) => (
+                      <SelectItem key={option} value={String(option)}>
+                        {Number.isFinite(option) ? option : "Full"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="ml-2">Group</span>
+                <Select
+                  value={encodePriceGrouping(priceGrouping)}
+                  onValueChange={(value) => setPriceGrouping(decodePriceGrouping(value))}
+                >
+                  <SelectTrigger className="w-24 h-8 bg-white/80 dark:bg-slate-800/80">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {groupingOptions.map((option) => (
+                      <SelectItem key={encodePriceGrouping(option)} value={encodePriceGrouping(option)}>
+                        {formatPriceGrouping(option)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="ml-2">Stale after</span>
+                <Select value={String(staleAfterMs)} onValueChange={(value) => setStaleAfterMs(Number(value))}>
+                  <SelectTrigger className="w-20 h-8 bg-white/80 dark:bg-slate-800/80">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STALE_WINDOWS_MS.map((windowMs) => (
+                      <SelectItem key={windowMs} value={String(windowMs)}>
+                        {windowMs / 1000}s
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="ml-2">Updates</span>
+                <Select value={String(updateRate)} onValueChange={(value) => setUpdateRate(decodeUpdateRate(value))}>
+                  <SelectTrigger className="w-32 h-8 bg-white/80 dark:bg-slate-800/80">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {UPDATE_RATE_OPTIONS.map((rate) => (
+                      <SelectItem key={rate} value={String(rate)}>
+                        {formatUpdateRate(rate)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
-              Exchange Selection
-            </CardTitle>
+            </div>
           </CardHeader>
           <CardContent>
             <Tabs value={selectedVenue} onValueChange={(value) => setSelectedVenue(value as Venue)}>
-              <TabsList className="grid w-full grid-cols-3 bg-slate-100 dark:bg-slate-700 p-1 rounded-xl">
+              <TabsList
+                className="grid w-full bg-slate-100 dark:bg-slate-700 p-1 rounded-xl"
+                style={{ gridTemplateColumns: `repeat(${VENUES.length}, minmax(0, 1fr))` }}
+              >
                 {VENUES.map((venue) => (
                   <TabsTrigger
                     key={venue}
@@ -112,6 +304,8 @@ export default function OrderbookViewer() {
               </TabsList>
             </Tabs>
 
+            <FeedReliability venues={VENUES} gapEvents={gapEvents} />
+
             {error && (
               <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
                 <p className="text-red-700 dark:text-red-400 text-sm">{error}</p>
@@ -132,6 +326,13 @@ export default function OrderbookViewer() {
                 onOrderSimulation={handleOrderSimulation}
                 onClearSimulation={clearSimulation}
                 orderbookData={orderbookData}
+                instruments={instruments}
+                instrumentSpec={instrumentSpec}
+                isCatalogLoading={isCatalogLoading}
+                feeSelection={feeSelection}
+                onFeeSelectionChange={setFeeSelection}
+                ticker={ticker}
+                onTriggersChange={setArmedTriggers}
               />
             </div>
           </div>
@@ -142,9 +343,13 @@ export default function OrderbookViewer() {
               <OrderbookDisplay
                 venue={selectedVenue}
                 symbol={selectedSymbol}
-                orderbookData={orderbookData}
+                orderbookData={groupedOrderbookData}
+                groupingStep={groupingStep}
                 simulatedOrder={simulatedOrder}
+                triggers={armedTriggers}
                 isConnected={isConnected}
+                isStale={isStale}
+                onRender={countLadderRender}
               />
             </div>
           </div>
@@ -152,11 +357,52 @@ export default function OrderbookViewer() {
           {/* Market Depth Chart */}
           <div className="xl:col-span-4">
             <div className="sticky top-32">
-              <MarketDepthChart orderbookData={orderbookData} simulatedOrder={simulatedOrder} />
+              <MarketDepthChart
+                orderbookData={groupedOrderbookData}
+                simulatedOrder={simulatedOrder}
+                triggers={armedTriggers}
+                onRender={countChartRender}
+              />
             </div>
           </div>
         </div>
+
+        {/* Consolidated Book */}
+        {showConsolidated && (
+          <div className="mt-6">
+            <ConsolidatedOrderbook
+              symbol={selectedSymbol}
+              instruments={instruments}
+              priceGrouping={priceGrouping}
+              updateRate={updateRate}
+              staleAfterMs={staleAfterMs}
+              feeSelection={feeSelection}
+            />
+          </div>
+        )}
+
+        {/* Venue Comparison */}
+        {showComparison && (
+          <div className="mt-6">
+            <VenueComparison
+              symbol={selectedSymbol}
+              instruments={instruments}
+              priceGrouping={priceGrouping}
+              updateRate={updateRate}
+              staleAfterMs={staleAfterMs}
+            />
+          </div>
+        )}
       </div>
+
+      {showPerfOverlay && (
+        <PerfOverlay
+          throughputRef={throughputRef}
+          renderCountsRef={renderCountsRef}
+          updateRateLabel={formatUpdateRate(updateRate)}
+          onClose={() => setShowPerfOverlay(false)}
+        />
+      )}
     </div>
   )
 }
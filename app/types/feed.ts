@@ -0,0 +1,50 @@
+import type { InstrumentSpec } from "./instrument"
+import type { ConnectionState, OrderbookData, PriceTicker, SequenceGapEvent, Venue } from "./orderbook"
+
+// Settings that can change while a feed is running without reconnecting it
+export interface FeedSettings {
+  instrumentSpec: InstrumentSpec | null
+  // How long an open connection may go without a book update before the feed is flagged as stale
+  staleAfterMs: number
+  // How often the maintained book is posted to the UI at most
+  snapshotFps: number
+}
+
+export interface FeedConfig extends FeedSettings {
+  venue: Venue
+  // Canonical symbol
+  symbol: string
+  // Levels per side to subscribe to, already checked against the venue's depth options
+  depth: number
+}
+
+// Messages from the UI to the feed worker
+export type FeedCommand =
+  | { type: "connect"; sessionId: number; config: FeedConfig }
+  | { type: "configure"; settings: Partial<FeedSettings> }
+  | { type: "disconnect" }
+
+// Messages and snapshots a feed handled over the last second
+export interface Throughput {
+  messagesPerSecond: number
+  snapshotsPerSecond: number
+}
+
+// Messages from a feed to the UI. The worker tags each one with the session it belongs to, so that anything still
+// in flight from a previous venue or symbol can be dropped.
+export type FeedEvent =
+  | { type: "connection"; state: ConnectionState; nextRetryAt: number | null; retryAttempt: number }
+  | { type: "error"; message: string | null }
+  | { type: "book"; data: OrderbookData; lastUpdateAt: number }
+  // Latest last and mark prices, coalesced like the book
+  | { type: "ticker"; ticker: PriceTicker }
+  // The local book is known to be wrong and a fresh snapshot has been requested
+  | { type: "resyncing"; resyncing: boolean }
+  | { type: "feed-stale"; stale: boolean }
+  | { type: "checksum"; ok: boolean }
+  | { type: "gap"; gap: SequenceGapEvent }
+  | { type: "gap-recovered"; recoveredAt: number }
+  // Venue messages received and book snapshots posted over the last second
+  | ({ type: "throughput" } & Throughput)
+
+export type FeedWorkerMessage = FeedEvent & { sessionId: number }
@@ -0,0 +1,32 @@
+import type { Venue } from "./orderbook"
+
+export type InstrumentKind = "spot" | "perp" | "future" | "option"
+
+// Venue-independent description of a tradable instrument. Derivatives quoted in USD are the inverse
+// (coin-margined) contracts, while USDT/USDC quotes are the linear ones.
+export interface Instrument {
+  base: string
+  quote: string
+  kind: InstrumentKind
+  // ISO date (YYYY-MM-DD) for futures and options
+  expiry?: string
+  strike?: number
+  optionType?: "call" | "put"
+}
+
+// Trading rules for one instrument as published by a venue's instruments endpoint
+export interface InstrumentSpec {
+  venue: Venue
+  // Canonical symbol and the venue's own name for it
+  symbol: string
+  venueSymbol: string
+  instrument: Instrument
+  tickSize: number
+  lotSize: number
+  minSize: number
+  // Value of one contract in its value currency; 1 where quantities are already in base or quote units
+  contractMultiplier: number
+  // Decimal places used on the wire, for venues that send prices and sizes as JSON numbers
+  pricePrecision?: number
+  sizePrecision?: number
+}
@@ -1,4 +1,8 @@
-export type Venue = "OKX" | "Bybit" | "Deribit"
+export type Venue = "OKX" | "Bybit" | "Deribit" | "Binance" | "Coinbase" | "Kraken"
+
+// Lifecycle of a venue's WebSocket. backing-off waits for the next reconnect attempt; closed-by-user stays down
+// until the user reconnects.
+export type ConnectionState = "idle" | "connecting" | "open" | "backing-off" | "closed-by-user"
 
 export interface OrderbookLevel {
   price: number
@@ -14,6 +18,16 @@ export interface OrderbookData {
   venue: Venue
 }
 
+// Reference prices streamed next to the book. Mark prices only exist on derivatives, and either field may not have
+// arrived yet.
+export interface PriceTicker {
+  last?: number
+  mark?: number
+  timestamp: number
+}
+
+export type TimeInForce = "GTC" | "IOC" | "FOK"
+
 export interface SimulatedOrder {
   venue: Venue
   symbol: string
@@ -22,10 +36,106 @@ export interface SimulatedOrder {
   price?: number
   quantity: number
   timing: "immediate" | "5s" | "10s" | "30s"
+  // Limit orders only; market orders take what the book has and cancel the rest
+  timeInForce?: TimeInForce
+  postOnly?: boolean
+  reduceOnly?: boolean
   estimatedFill: number
   marketImpact: number
   slippage: number
   timeToFill?: number
+  averagePrice?: number
+  cost?: ExecutionCost
+  // Delayed orders: when they are due to execute, and what they got against the book at that moment
+  executeAt?: number
+  realized?: RealizedExecution
+  // Limit orders: the part that fills on arrival against the other side up to the limit price, and the remainder that
+  // rests at it
+  immediateFill?: FillSummary
+  restingQuantity?: number
+  // Where the resting remainder sits in the queue at its price
+  queue?: QueuePosition
+  // Set when the venue would refuse the order outright, so nothing fills or rests
+  rejectionReason?: string
+  // Size the venue would cancel instead of filling or resting it, such as an IOC remainder, and why
+  cancelledQuantity?: number
+  cancelReasons?: string[]
+  // The price a post-only order was entered at before the venue moved it off the touch
+  repricedFrom?: number
+}
+
+export type TriggerOrderType = "stop-market" | "stop-limit" | "take-profit"
+
+export type TriggerPriceSource = "last" | "mid" | "mark"
+
+// A conditional order waiting on the live feed. Once the reference price reaches the trigger it is sent to the book
+// as a market order, or as a limit at limitPrice for a stop-limit.
+export interface TriggerOrder {
+  id: number
+  venue: Venue
+  symbol: string
+  type: TriggerOrderType
+  side: "buy" | "sell"
+  quantity: number
+  triggerPrice: number
+  limitPrice?: number
+  priceSource: TriggerPriceSource
+  armedAt: number
+}
+
+export interface TriggerLogEntry {
+  trigger: TriggerOrder
+  triggeredAt: number
+  // The reference price that reached the trigger
+  referencePrice: number
+  // The order sent to the book, with what it filled
+  order: SimulatedOrder
+}
+
+export type ParentOrderStrategy = "twap" | "vwap" | "pov"
+
+export type VolumeCurve = "u-shape" | "front-loaded" | "back-loaded"
+
+export interface ParentOrderParams {
+  strategy: ParentOrderStrategy
+  horizonSeconds: number
+  // Child orders over the horizon; POV sizes a child at the same interval
+  slices: number
+  // POV only: target share of the volume traded while the order works, 0 to 1
+  participationRate: number
+  // VWAP only: how the expected volume, and so the child sizes, is spread over the horizon
+  curve: VolumeCurve
+  // Children execute against the live feed as it arrives, or against the book recorded over the last horizon
+  source: "live" | "replay"
+}
+
+export interface ChildFill {
+  // Seconds after the parent order started
+  offsetSeconds: number
+  targetQuantity: number
+  filledQuantity: number
+  // Zero when nothing filled
+  averagePrice: number
+  midPrice: number
+  // POV only: volume inferred from the book since the previous child
+  marketVolume?: number
+}
+
+// A large order worked as a series of child sweeps. Children take liquidity up to the parent's limit price, if it has
+// one, and whatever a child leaves unfilled is added to the next.
+export interface ParentOrderExecution {
+  params: ParentOrderParams
+  // The order as entered, with the estimate for sweeping all of it at arrival
+  parent: SimulatedOrder
+  startedAt: number
+  arrivalBook: OrderbookData
+  arrivalMid: number
+  children: ChildFill[]
+  filledQuantity: number
+  averagePrice: number
+  // POV only: volume inferred since the last child was sent
+  pendingVolume: number
+  completedAt?: number
 }
 
 export interface MarketImpactMetrics {
@@ -34,4 +144,98 @@ export interface MarketImpactMetrics {
   slippage: number
   averagePrice: number
   worstPrice: number
+  cost?: ExecutionCost
+}
+
+export interface FillSummary {
+  quantity: number
+  averagePrice: number
+  // First and last price levels the fill took liquidity from
+  bestPrice: number
+  worstPrice: number
+}
+
+export interface QueuePosition {
+  side: "buy" | "sell"
+  price: number
+  quantity: number
+  placedAt: number
+  updatedAt: number
+  // Displayed size at the price when the order joined, how much of it is still ahead, and the size displayed on the
+  // last update, none of which include the simulated order itself
+  initialSizeAhead: number
+  sizeAhead: number
+  displayedSize: number
+  // Other-side size at or through the price on the last update. The live book keeps showing what a marketable limit
+  // took on arrival, so only size beyond this counts as trading with the queue.
+  crossedSize: number
+  filledQuantity: number
+  // Decreases in the displayed size since the order joined, attributed to trades or to cancels
+  tradedVolume: number
+  cancelledVolume: number
+  tradeEvents: number
+  // Seconds to a complete fill at the observed trade rate; null until trades have been seen
+  expectedTimeToFill: number | null
+  // Chance of a complete fill within each horizon, keyed by seconds
+  fillProbability: Record<number, number>
+}
+
+export interface RealizedExecution extends MarketImpactMetrics {
+  executedAt: number
+}
+
+// A cost in quote currency and in basis points of the filled size valued at the arrival mid; negative is a saving
+export interface CostAmount {
+  quote: number
+  bps: number
+}
+
+export interface ExecutionCost {
+  liquidity: "maker" | "taker"
+  feeRate: number
+  // The arrival mid the order is measured against and the touch it executed against
+  midPrice: number
+  bestPrice: number
+  fees: CostAmount
+  slippageVsMid: CostAmount
+  slippageVsBest: CostAmount
+  // Slippage against the arrival mid plus fees
+  implementationShortfall: CostAmount
+}
+
+export type BookLevelAction = "insert" | "update" | "delete"
+
+export interface BookLevelChange {
+  action: BookLevelAction
+  price: number
+  quantity: number
+  // Price and size exactly as the venue sent them, needed wherever a checksum is computed over the wire format
+  raw?: [price: string, quantity: string]
+}
+
+export interface BookUpdate {
+  type: "snapshot" | "delta"
+  venue: Venue
+  symbol: string
+  bids: BookLevelChange[]
+  asks: BookLevelChange[]
+  timestamp: number
+  // Venue-published checksum of the book after this update has been applied
+  checksum?: number
+  // Sequence id of this update and of the update it follows on from, where the venue provides them
+  sequence?: number
+  prevSequence?: number
+  // First sequence id covered by a delta that batches several updates together (Binance `U`)
+  firstSequence?: number
+}
+
+export interface SequenceGapEvent {
+  venue: Venue
+  symbol: string
+  // Last sequence id applied locally and the id of the update that did not follow on from it
+  lastSequence: number
+  receivedSequence: number
+  detectedAt: number
+  // Set once a fresh snapshot has replaced the broken book
+  recoveredAt?: number
 }
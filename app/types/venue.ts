@@ -0,0 +1,50 @@
+import type { Instrument, InstrumentSpec } from "./instrument"
+import type { BookUpdate, PriceTicker, Venue } from "./orderbook"
+import type { LocalOrderbook } from "../lib/orderbookEngine"
+
+export interface VenueHeartbeat {
+  // Text frame sent every interval to keep the connection alive, for venues that expect the client to ping
+  ping?: string
+  intervalMs?: number
+  // Sent once after subscribing, for venues that probe the client instead
+  setupMessage?: object
+  // True for heartbeat traffic such as the reply to a ping, which carries no book data
+  isPong: (raw: string) => boolean
+  // Set for venues whose book stream goes silent while the book does not change, so heartbeats count as the feed
+  // being alive and keep the stale watchdog from firing on a quiet market
+  isLiveness?: boolean
+  // Answer to a heartbeat probe from the venue, or null when the message is not one
+  getReply?: (data: any) => object | null
+}
+
+// Everything the app needs to know about one exchange. Adding a venue means writing one of these and
+// registering it in venues/index.ts.
+export interface VenueAdapter {
+  venue: Venue
+  getWebSocketUrl: (instrument: Instrument) => string
+  // Book depths in levels per side the venue can stream for an instrument, default first; Infinity is the full book
+  getDepthOptions: (instrument: Instrument) => number[]
+  getSubscribeMessage: (instrument: Instrument, venueSymbol: string, depth: number) => object
+  getUnsubscribeMessage: (instrument: Instrument, venueSymbol: string, depth: number) => object
+  heartbeat?: VenueHeartbeat
+  // For venues whose stream only carries deltas: fetches the snapshot they are applied on top of. Deltas that
+  // arrive while it is loading are buffered and replayed.
+  fetchSnapshot?: (instrument: Instrument, venueSymbol: string, depth: number) => Promise<BookUpdate>
+  // Text for a venue error message, such as a rejected subscription, or null for anything else
+  parseError?: (data: any) => string | null
+  // Turns one decoded WebSocket message into a snapshot or delta, or null for anything that is not book data
+  parseMessage: (data: any) => BookUpdate | null
+  // Subscribes to the last trade price and, on derivatives, the mark price on the same connection as the book
+  getTickerSubscribeMessage?: (instrument: Instrument, venueSymbol: string) => object
+  // Turns a ticker message into whichever reference prices it carries, or null for anything else. Tried before
+  // parseMessage, so book parsing never sees ticker traffic.
+  parseTicker?: (data: any) => PriceTicker | null
+  // Checks the local book against the checksum carried by an update, for venues that publish one. Returns
+  // undefined when the check needs instrument details that are not known yet.
+  verifyChecksum?: (book: LocalOrderbook, update: BookUpdate, spec: InstrumentSpec | null) => boolean | undefined
+  // Venue instrument name for a canonical instrument, or null when the venue does not list that kind of contract
+  toVenueSymbol: (instrument: Instrument) => string | null
+  // The reverse mapping; category disambiguates venues that reuse names across markets
+  fromVenueSymbol: (venueSymbol: string, category?: string) => Instrument | null
+  fetchInstruments: () => Promise<InstrumentSpec[]>
+}
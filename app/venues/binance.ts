@@ -0,0 +1,162 @@
+import type { Instrument, InstrumentSpec } from "../types/instrument"
+import type { VenueAdapter } from "../types/venue"
+import { fromYymmdd, toYymmdd } from "../lib/instruments"
+import { createInstrumentSpec, fetchJson, toPositiveNumber, toPriceTicker, toSizeChange } from "./shared"
+
+// Spot and USD-M futures are separate APIs; BTCUSDT is the name of both the spot pair and the perpetual
+export type BinanceMarket = "spot" | "usdm"
+
+// Longest first so that e.g. FDUSD is not read as a pair quoted in USD
+const SPOT_QUOTES = ["FDUSD", "USDT", "USDC", "BTC", "ETH", "BNB", "EUR", "TRY"]
+
+const USDM_CONTRACT_TYPES = ["PERPETUAL", "CURRENT_QUARTER", "NEXT_QUARTER"]
+
+export function getBinanceMarket(instrument: Instrument): BinanceMarket {
+  return instrument.kind === "spot" ? "spot" : "usdm"
+}
+
+function getStream(venueSymbol: string) {
+  return `${venueSymbol.toLowerCase()}@depth@100ms`
+}
+
+function getFilter(item: any, filterType: string) {
+  return item.filters?.find((filter: any) => filter.filterType === filterType) ?? {}
+}
+
+function toBinanceSymbol(instrument: Instrument) {
+  const { base, quote } = instrument
+
+  switch (instrument.kind) {
+    case "spot":
+      return SPOT_QUOTES.includes(quote) ? `${base}${quote}` : null
+    case "perp":
+      return quote === "USDT" || quote === "USDC" ? `${base}${quote}` : null
+    case "future":
+      // Quarterly contracts append the delivery date, e.g. BTCUSDT_251226
+      return quote === "USDT" ? `${base}USDT_${toYymmdd(instrument.expiry!)}` : null
+    case "option":
+      return null
+  }
+}
+
+function fromBinanceSymbol(symbol: string, market: BinanceMarket = "usdm"): Instrument | null {
+  if (market === "spot") {
+    const quote = SPOT_QUOTES.find((candidate) => symbol.endsWith(candidate) && symbol.length > candidate.length)
+    return quote ? { base: symbol.slice(0, -quote.length), quote, kind: "spot" } : null
+  }
+
+  const match = /^([A-Z0-9]+?)(USDT|USDC)(?:_(\d{6}))?$/.exec(symbol)
+  if (!match) return null
+  if (!match[3]) return { base: match[1], quote: match[2], kind: "perp" }
+
+  const expiry = fromYymmdd(match[3])
+  return expiry ? { base: match[1], quote: match[2], kind: "future", expiry } : null
+}
+
+async function fetchMarket(market: BinanceMarket): Promise<InstrumentSpec[]> {
+  const response = await fetchJson(
+    market === "spot" ? "https://api.binance.com/api/v3/exchangeInfo" : "https://fapi.binance.com/fapi/v1/exchangeInfo",
+  )
+
+  return (response.symbols ?? [])
+    .filter((item: any) => item.status === "TRADING")
+    .filter((item: any) => market === "spot" || USDM_CONTRACT_TYPES.includes(item.contractType))
+    .map((item: any) => {
+      const lotSize = toPositiveNumber(getFilter(item, "LOT_SIZE").stepSize, 0)
+      return createInstrumentSpec(
+        binanceAdapter,
+        item.symbol,
+        {
+          tickSize: toPositiveNumber(getFilter(item, "PRICE_FILTER").tickSize, 0),
+          lotSize,
+          minSize: toPositiveNumber(getFilter(item, "LOT_SIZE").minQty, lotSize),
+          contractMultiplier: 1,
+        },
+        market,
+      )
+    })
+    .filter((spec: InstrumentSpec | null): spec is InstrumentSpec => spec !== null)
+}
+
+export const binanceAdapter: VenueAdapter = {
+  venue: "Binance",
+
+  getWebSocketUrl: (instrument) =>
+    getBinanceMarket(instrument) === "spot" ? "wss://stream.binance.com:9443/ws" : "wss://fstream.binance.com/ws",
+
+  // The diff stream covers the whole book; depth only sets how many levels the REST snapshot starts from
+  getDepthOptions: (instrument) => (getBinanceMarket(instrument) === "spot" ? [1000, 5000] : [1000]),
+
+  getSubscribeMessage: (_instrument, venueSymbol) => ({
+    method: "SUBSCRIBE",
+    params: [getStream(venueSymbol)],
+    id: 1,
+  }),
+
+  getUnsubscribeMessage: (_instrument, venueSymbol) => ({
+    method: "UNSUBSCRIBE",
+    params: [getStream(venueSymbol)],
+    id: 2,
+  }),
+
+  // Aggregated trades give the last price; USD-M futures also stream the mark price every second
+  getTickerSubscribeMessage: (instrument, venueSymbol) => ({
+    method: "SUBSCRIBE",
+    params: [
+      `${venueSymbol.toLowerCase()}@aggTrade`,
+      ...(getBinanceMarket(instrument) === "usdm" ? [`${venueSymbol.toLowerCase()}@markPrice@1s`] : []),
+    ],
+    id: 3,
+  }),
+
+  parseTicker: (data) => {
+    if (data.e === "aggTrade") return toPriceTicker({ last: data.p }, data.T)
+    if (data.e === "markPriceUpdate") return toPriceTicker({ mark: data.p }, data.E)
+    return null
+  },
+
+  // Binance keeps the connection alive with protocol-level ping frames, which browsers answer on their own
+
+  // The depth stream carries diffs only; the book starts from the REST snapshot and each diff covers update
+  // ids U..u, so the first diff on top of the snapshot must contain lastUpdateId + 1
+  fetchSnapshot: async (instrument, venueSymbol, depth) => {
+    const url =
+      getBinanceMarket(instrument) === "spot"
+        ? `https://api.binance.com/api/v3/depth?symbol=${venueSymbol}&limit=${depth}`
+        : `https://fapi.binance.com/fapi/v1/depth?symbol=${venueSymbol}&limit=${depth}`
+    const snapshot = await fetchJson(url)
+    return {
+      type: "snapshot",
+      venue: "Binance",
+      symbol: venueSymbol,
+      bids: snapshot.bids.map(toSizeChange),
+      asks: snapshot.asks.map(toSizeChange),
+      timestamp: snapshot.E ?? Date.now(),
+      sequence: snapshot.lastUpdateId,
+    }
+  },
+
+  parseMessage: (data) => {
+    if (data.e !== "depthUpdate") return null
+    return {
+      type: "delta",
+      venue: "Binance",
+      symbol: data.s,
+      bids: data.b.map(toSizeChange),
+      asks: data.a.map(toSizeChange),
+      timestamp: data.E,
+      sequence: data.u,
+      firstSequence: data.U,
+      // Futures diffs name the final id of the previous diff (pu); spot ids are contiguous across diffs
+      prevSequence: data.pu ?? data.U - 1,
+    }
+  },
+
+  toVenueSymbol: toBinanceSymbol,
+  fromVenueSymbol: (venueSymbol, category) => fromBinanceSymbol(venueSymbol, category as BinanceMarket | undefined),
+
+  fetchInstruments: async () => {
+    const markets = await Promise.all((["spot", "usdm"] as const).map(fetchMarket))
+    return markets.flat()
+  },
+}
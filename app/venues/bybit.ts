@@ -0,0 +1,191 @@
+import type { Instrument, InstrumentSpec } from "../types/instrument"
+import type { VenueAdapter } from "../types/venue"
+import {
+  MONTH_CODES,
+  expiryParts,
+  fromDayMonthYear,
+  lastFridayOfMonth,
+  optionSuffix,
+  parseOptionType,
+  toDayMonthYear,
+} from "../lib/instruments"
+import { createInstrumentSpec, fetchJson, toPositiveNumber, toPriceTicker, toSizeChange } from "./shared"
+
+export type BybitCategory = "spot" | "linear" | "inverse" | "option"
+
+const SPOT_QUOTES = ["USDT", "USDC", "BTC", "ETH", "EUR", "DAI"]
+
+// Each category is a separate public stream and instruments listing
+export function getBybitCategory(instrument: Instrument): BybitCategory {
+  if (instrument.kind === "spot") return "spot"
+  if (instrument.kind === "option") return "option"
+  return instrument.quote === "USD" ? "inverse" : "linear"
+}
+
+const DEPTH_OPTIONS: Record<BybitCategory, number[]> = {
+  spot: [50, 200],
+  linear: [50, 200, 500],
+  inverse: [50, 200, 500],
+  option: [25, 100],
+}
+
+function getTopic(venueSymbol: string, depth: number) {
+  return `orderbook.${depth}.${venueSymbol}`
+}
+
+function toBybitSymbol(instrument: Instrument) {
+  const { base, quote } = instrument
+
+  switch (instrument.kind) {
+    case "spot":
+      return quote === "USD" ? null : `${base}${quote}`
+    case "perp":
+      if (quote === "USDT" || quote === "USD") return `${base}${quote}`
+      // USDC perpetuals are listed as e.g. BTCPERP
+      return quote === "USDC" ? `${base}PERP` : null
+    case "future": {
+      const expiry = instrument.expiry!
+      if (quote === "USDT") return `${base}USDT-${toDayMonthYear(expiry)}`
+      if (quote === "USDC") return `${base}-${toDayMonthYear(expiry)}`
+      if (quote === "USD") {
+        // Inverse futures only carry a month code and year, e.g. BTCUSDZ25
+        const { year, month } = expiryParts(expiry)
+        return `${base}USD${MONTH_CODES[month - 1]}${String(year % 100).padStart(2, "0")}`
+      }
+      return null
+    }
+    case "option":
+      return quote === "USDC" ? `${base}-${toDayMonthYear(instrument.expiry!)}-${optionSuffix(instrument)}` : null
+  }
+}
+
+// Bybit reuses names across categories (BTCUSDT is both spot and the linear perpetual), so the category
+// the symbol came from must be given; it defaults to linear
+function fromBybitSymbol(symbol: string, category: BybitCategory = "linear"): Instrument | null {
+  if (category === "spot") {
+    const quote = SPOT_QUOTES.find((candidate) => symbol.endsWith(candidate) && symbol.length > candidate.length)
+    return quote ? { base: symbol.slice(0, -quote.length), quote, kind: "spot" } : null
+  }
+
+  if (category === "option") {
+    const match = /^([A-Z0-9]+)-(\d{1,2}[A-Z]{3}\d{2})-(\d+(?:\.\d+)?)-([CP])(?:-USDT)?$/.exec(symbol)
+    const expiry = match && fromDayMonthYear(match[2])
+    const optionType = match && parseOptionType(match[4])
+    if (!match || !expiry || !optionType) return null
+    return { base: match[1], quote: "USDC", kind: "option", expiry, strike: Number.parseFloat(match[3]), optionType }
+  }
+
+  if (category === "inverse") {
+    const perp = /^([A-Z0-9]+)USD$/.exec(symbol)
+    if (perp) return { base: perp[1], quote: "USD", kind: "perp" }
+    const future = /^([A-Z0-9]+)USD([FGHJKMNQUVXZ])(\d{2})$/.exec(symbol)
+    if (!future) return null
+    const expiry = lastFridayOfMonth(2000 + Number.parseInt(future[3]), MONTH_CODES.indexOf(future[2]) + 1)
+    return { base: future[1], quote: "USD", kind: "future", expiry }
+  }
+
+  const usdtFuture = /^([A-Z0-9]+)USDT-(\d{1,2}[A-Z]{3}\d{2})$/.exec(symbol)
+  if (usdtFuture) {
+    const expiry = fromDayMonthYear(usdtFuture[2])
+    return expiry ? { base: usdtFuture[1], quote: "USDT", kind: "future", expiry } : null
+  }
+  const usdcFuture = /^([A-Z0-9]+)-(\d{1,2}[A-Z]{3}\d{2})$/.exec(symbol)
+  if (usdcFuture) {
+    const expiry = fromDayMonthYear(usdcFuture[2])
+    return expiry ? { base: usdcFuture[1], quote: "USDC", kind: "future", expiry } : null
+  }
+  if (symbol.endsWith("PERP")) return { base: symbol.slice(0, -4), quote: "USDC", kind: "perp" }
+  if (symbol.endsWith("USDT")) return { base: symbol.slice(0, -4), quote: "USDT", kind: "perp" }
+  return null
+}
+
+async function fetchCategory(category: BybitCategory): Promise<InstrumentSpec[]> {
+  const specs: InstrumentSpec[] = []
+  let cursor = ""
+
+  // Linear and inverse listings are paginated
+  do {
+    const response = await fetchJson(
+      `https://api.bybit.com/v5/market/instruments-info?category=${category}&limit=1000&cursor=${encodeURIComponent(cursor)}`,
+    )
+    for (const item of response.result?.list ?? []) {
+      if (item.status !== "Trading") continue
+      const lotSize = toPositiveNumber(item.lotSizeFilter?.qtyStep ?? item.lotSizeFilter?.basePrecision, 0)
+      const spec = createInstrumentSpec(
+        bybitAdapter,
+        item.symbol,
+        {
+          tickSize: toPositiveNumber(item.priceFilter?.tickSize, 0),
+          lotSize,
+          minSize: toPositiveNumber(item.lotSizeFilter?.minOrderQty, lotSize),
+          contractMultiplier: 1,
+        },
+        category,
+      )
+      if (spec) specs.push(spec)
+    }
+    cursor = response.result?.nextPageCursor ?? ""
+  } while (cursor)
+
+  return specs
+}
+
+export const bybitAdapter: VenueAdapter = {
+  venue: "Bybit",
+
+  getWebSocketUrl: (instrument) => `wss://stream.bybit.com/v5/public/${getBybitCategory(instrument)}`,
+
+  getDepthOptions: (instrument) => DEPTH_OPTIONS[getBybitCategory(instrument)],
+
+  getSubscribeMessage: (_instrument, venueSymbol, depth) => ({
+    op: "subscribe",
+    args: [getTopic(venueSymbol, depth)],
+  }),
+
+  getUnsubscribeMessage: (_instrument, venueSymbol, depth) => ({
+    op: "unsubscribe",
+    args: [getTopic(venueSymbol, depth)],
+  }),
+
+  getTickerSubscribeMessage: (_instrument, venueSymbol) => ({
+    op: "subscribe",
+    args: [`tickers.${venueSymbol}`],
+  }),
+
+  // Spot tickers have no mark price, and derivative ticker deltas only carry the fields that changed
+  parseTicker: (data) =>
+    data.topic?.startsWith("tickers.") && data.data
+      ? toPriceTicker({ last: data.data.lastPrice, mark: data.data.markPrice }, data.ts)
+      : null,
+
+  // Bybit recommends a ping every 20 seconds; the reply is {"op":"pong"} on spot and {"ret_msg":"pong"} elsewhere
+  heartbeat: {
+    intervalMs: 20000,
+    ping: JSON.stringify({ op: "ping" }),
+    isPong: (raw) => raw.length < 256 && raw.includes('"pong"'),
+  },
+
+  parseMessage: (data) => {
+    // Bybit marks the first message "snapshot" and every following one "delta"; size "0" removes a level
+    if (!data.data || !data.type || !data.topic?.startsWith("orderbook.")) return null
+    return {
+      type: data.type === "snapshot" ? "snapshot" : "delta",
+      venue: "Bybit",
+      symbol: data.data.s,
+      bids: data.data.b.map(toSizeChange),
+      asks: data.data.a.map(toSizeChange),
+      timestamp: data.ts,
+      // Update ids on a topic increase by exactly one per message
+      sequence: data.data.u,
+      prevSequence: data.type === "delta" ? data.data.u - 1 : undefined,
+    }
+  },
+
+  toVenueSymbol: toBybitSymbol,
+  fromVenueSymbol: (venueSymbol, category) => fromBybitSymbol(venueSymbol, category as BybitCategory | undefined),
+
+  fetchInstruments: async () => {
+    const categories = await Promise.all((["spot", "linear", "inverse"] as const).map(fetchCategory))
+    return categories.flat()
+  },
+}
@@ -0,0 +1,94 @@
+import type { Instrument, InstrumentSpec } from "../types/instrument"
+import type { BookLevelChange } from "../types/orderbook"
+import type { VenueAdapter } from "../types/venue"
+import { createInstrumentSpec, fetchJson, toPositiveNumber, toPriceTicker, toSizeChange } from "./shared"
+
+// Coinbase Advanced Trade level2 updates carry the side and the new absolute size of the level
+function toSideChange(update: any): BookLevelChange {
+  return toSizeChange([update.price_level, update.new_quantity])
+}
+
+function toCoinbaseSymbol(instrument: Instrument) {
+  return instrument.kind === "spot" ? `${instrument.base}-${instrument.quote}` : null
+}
+
+function fromCoinbaseSymbol(symbol: string): Instrument | null {
+  const [base, quote, ...rest] = symbol.split("-")
+  return base && quote && rest.length === 0 ? { base, quote, kind: "spot" } : null
+}
+
+export const coinbaseAdapter: VenueAdapter = {
+  venue: "Coinbase",
+
+  getWebSocketUrl: () => "wss://advanced-trade-ws.coinbase.com",
+
+  // level2 always carries the full book
+  getDepthOptions: () => [Infinity],
+
+  getSubscribeMessage: (_instrument, venueSymbol) => ({
+    type: "subscribe",
+    product_ids: [venueSymbol],
+    channel: "level2",
+  }),
+
+  getUnsubscribeMessage: (_instrument, venueSymbol) => ({
+    type: "unsubscribe",
+    product_ids: [venueSymbol],
+    channel: "level2",
+  }),
+
+  // level2 only sends changed levels, so a quiet book says nothing; the heartbeats channel ticks every second on the
+  // same connection and is what shows the feed is still alive
+  heartbeat: {
+    setupMessage: { type: "subscribe", channel: "heartbeats" },
+    isPong: (raw) => raw.length < 512 && raw.includes('"channel":"heartbeats"'),
+    isLiveness: true,
+  },
+
+  // Spot only, so there is no mark price
+  getTickerSubscribeMessage: (_instrument, venueSymbol) => ({
+    type: "subscribe",
+    product_ids: [venueSymbol],
+    channel: "ticker",
+  }),
+
+  parseTicker: (data) => {
+    if (data.channel !== "ticker") return null
+    const tickers = (data.events ?? []).flatMap((event: any) => event.tickers ?? [])
+    return toPriceTicker({ last: tickers[tickers.length - 1]?.price }, Date.parse(data.timestamp))
+  },
+
+  parseMessage: (data) => {
+    // Messages hold a list of events; the first after subscribing is the full book, later ones changed levels only.
+    // sequence_num counts every message on the connection across channels, so it cannot tell a lost book update apart.
+    if (data.channel !== "l2_data" || !data.events?.length) return null
+    const updates = data.events.flatMap((event: any) => event.updates ?? [])
+    return {
+      type: data.events.some((event: any) => event.type === "snapshot") ? "snapshot" : "delta",
+      venue: "Coinbase",
+      symbol: data.events[0].product_id,
+      bids: updates.filter((update: any) => update.side === "bid").map(toSideChange),
+      asks: updates.filter((update: any) => update.side === "offer").map(toSideChange),
+      timestamp: Date.parse(data.timestamp) || Date.now(),
+    }
+  },
+
+  toVenueSymbol: toCoinbaseSymbol,
+  fromVenueSymbol: fromCoinbaseSymbol,
+
+  fetchInstruments: async () => {
+    const response = await fetchJson("https://api.coinbase.com/api/v3/brokerage/market/products?product_type=SPOT")
+
+    return (response.products ?? [])
+      .filter((item: any) => item.status === "online" && !item.trading_disabled && !item.is_disabled)
+      .map((item: any) =>
+        createInstrumentSpec(coinbaseAdapter, item.product_id, {
+          tickSize: toPositiveNumber(item.price_increment ?? item.quote_increment, 0),
+          lotSize: toPositiveNumber(item.base_increment, 0),
+          minSize: toPositiveNumber(item.base_min_size, 0),
+          contractMultiplier: 1,
+        }),
+      )
+      .filter((spec: InstrumentSpec | null): spec is InstrumentSpec => spec !== null)
+  },
+}
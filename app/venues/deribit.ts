@@ -0,0 +1,170 @@
+import type { Instrument, InstrumentSpec } from "../types/instrument"
+import type { BookLevelChange } from "../types/orderbook"
+import type { VenueAdapter } from "../types/venue"
+import { fromDayMonthYear, optionSuffix, parseOptionType, toDayMonthYear } from "../lib/instruments"
+import { createInstrumentSpec, fetchJson, toPositiveNumber, toPriceTicker } from "./shared"
+
+// Deribit only lists coin-margined (USD quoted) contracts on these bases
+const INVERSE_BASES = ["BTC", "ETH"]
+
+// The raw channel streams every level as changes; the grouped one sends the top 10 or 20 levels in full each time
+function getChannel(venueSymbol: string, depth: number) {
+  return Number.isFinite(depth) ? `book.${venueSymbol}.none.${depth}.100ms` : `book.${venueSymbol}.100ms`
+}
+
+// Raw book entries carry an explicit action, ["new" | "change" | "delete", price, amount]; grouped entries are
+// just [price, amount]
+function toBookChange(entry: [string, number, number] | [number, number]): BookLevelChange {
+  if (entry.length === 2) {
+    return { action: "update", price: entry[0], quantity: entry[1] }
+  }
+  const [action, price, quantity] = entry
+  return {
+    action: action === "new" ? "insert" : action === "delete" ? "delete" : "update",
+    price,
+    quantity,
+  }
+}
+
+function toDeribitSymbol(instrument: Instrument) {
+  const { base, quote } = instrument
+
+  if (instrument.kind === "spot") {
+    return quote === "USDC" || quote === "USDT" ? `${base}_${quote}` : null
+  }
+
+  // Coin-margined contracts are named after the base alone, linear ones carry the settlement currency
+  let prefix: string
+  if (quote === "USD" && INVERSE_BASES.includes(base)) {
+    prefix = base
+  } else if (quote === "USDC") {
+    prefix = `${base}_USDC`
+  } else {
+    return null
+  }
+
+  switch (instrument.kind) {
+    case "perp":
+      return `${prefix}-PERPETUAL`
+    case "future":
+      return `${prefix}-${toDayMonthYear(instrument.expiry!)}`
+    case "option":
+      // Fractional strikes are written with "d" instead of a decimal point, e.g. 0d625
+      return `${prefix}-${toDayMonthYear(instrument.expiry!)}-${optionSuffix(instrument).replace(".", "d")}`
+  }
+}
+
+function fromDeribitSymbol(symbol: string): Instrument | null {
+  const spot = /^([A-Z0-9]+)_([A-Z0-9]+)$/.exec(symbol)
+  if (spot) return { base: spot[1], quote: spot[2], kind: "spot" }
+
+  const match = /^([A-Z0-9]+?)(?:_(USDC))?-(PERPETUAL|\d{1,2}[A-Z]{3}\d{2})(?:-([0-9d.]+)-([CP]))?$/.exec(symbol)
+  if (!match) return null
+
+  const base = match[1]
+  const quote = match[2] ?? "USD"
+  if (match[3] === "PERPETUAL") return { base, quote, kind: "perp" }
+
+  const expiry = fromDayMonthYear(match[3])
+  if (!expiry) return null
+  if (!match[4]) return { base, quote, kind: "future", expiry }
+
+  const optionType = parseOptionType(match[5])
+  if (!optionType) return null
+  return { base, quote, kind: "option", expiry, strike: Number.parseFloat(match[4].replace("d", ".")), optionType }
+}
+
+export const deribitAdapter: VenueAdapter = {
+  venue: "Deribit",
+
+  getWebSocketUrl: () => "wss://www.deribit.com/ws/api/v2",
+
+  getDepthOptions: () => [Infinity, 20, 10],
+
+  getSubscribeMessage: (_instrument, venueSymbol, depth) => ({
+    jsonrpc: "2.0",
+    method: "public/subscribe",
+    id: 1,
+    params: {
+      channels: [getChannel(venueSymbol, depth)],
+    },
+  }),
+
+  getUnsubscribeMessage: (_instrument, venueSymbol, depth) => ({
+    jsonrpc: "2.0",
+    method: "public/unsubscribe",
+    id: 2,
+    params: {
+      channels: [getChannel(venueSymbol, depth)],
+    },
+  }),
+
+  getTickerSubscribeMessage: (_instrument, venueSymbol) => ({
+    jsonrpc: "2.0",
+    method: "public/subscribe",
+    id: 5,
+    params: {
+      channels: [`ticker.${venueSymbol}.100ms`],
+    },
+  }),
+
+  // last_price is null until the instrument has traded
+  parseTicker: (data) => {
+    if (data.method !== "subscription" || !data.params?.channel?.startsWith("ticker.")) return null
+    const ticker = data.params.data
+    return toPriceTicker({ last: ticker.last_price, mark: ticker.mark_price }, ticker.timestamp)
+  },
+
+  // Deribit sends a heartbeat every interval and now and then a test_request, which must be answered with
+  // public/test or the connection is closed
+  heartbeat: {
+    setupMessage: { jsonrpc: "2.0", method: "public/set_heartbeat", id: 3, params: { interval: 30 } },
+    isPong: (raw) => raw.length < 256 && raw.includes('"method":"heartbeat"') && !raw.includes('"test_request"'),
+    getReply: (data) =>
+      data.method === "heartbeat" && data.params?.type === "test_request"
+        ? { jsonrpc: "2.0", method: "public/test", id: 4, params: {} }
+        : null,
+  },
+
+  parseMessage: (data) => {
+    if (data.method !== "subscription" || !data.params?.data) return null
+    const book = data.params.data
+    return {
+      // Grouped messages have no type as every one of them is a complete snapshot
+      type: book.type === "change" ? "delta" : "snapshot",
+      venue: "Deribit",
+      symbol: book.instrument_name,
+      bids: book.bids.map(toBookChange),
+      asks: book.asks.map(toBookChange),
+      timestamp: book.timestamp,
+      sequence: book.change_id,
+      prevSequence: book.prev_change_id,
+    }
+  },
+
+  toVenueSymbol: toDeribitSymbol,
+  fromVenueSymbol: fromDeribitSymbol,
+
+  fetchInstruments: async () => {
+    // Futures include the perpetuals; options are left out as there are thousands of strikes
+    const responses = await Promise.all(
+      ["spot", "future"].map((kind) =>
+        fetchJson(`https://www.deribit.com/api/v2/public/get_instruments?currency=any&kind=${kind}&expired=false`),
+      ),
+    )
+
+    return responses
+      .flatMap((response) => response.result ?? [])
+      .filter((item: any) => item.is_active)
+      .map((item: any) =>
+        createInstrumentSpec(deribitAdapter, item.instrument_name, {
+          tickSize: toPositiveNumber(item.tick_size, 0),
+          // Amounts are already in USD for inverse contracts and in base currency otherwise
+          lotSize: toPositiveNumber(item.contract_size, 0),
+          minSize: toPositiveNumber(item.min_trade_amount, 0),
+          contractMultiplier: 1,
+        }),
+      )
+      .filter((spec): spec is InstrumentSpec => spec !== null)
+  },
+}
@@ -0,0 +1,40 @@
+import type { Instrument } from "../types/instrument"
+import type { Venue } from "../types/orderbook"
+import type { VenueAdapter } from "../types/venue"
+import { parseSymbol } from "../lib/instruments"
+import { okxAdapter } from "./okx"
+import { bybitAdapter } from "./bybit"
+import { deribitAdapter } from "./deribit"
+import { binanceAdapter } from "./binance"
+import { coinbaseAdapter } from "./coinbase"
+import { krakenAdapter } from "./kraken"
+
+// Registration order is the order venues appear in the UI
+export const VENUE_ADAPTERS: Record<Venue, VenueAdapter> = {
+  OKX: okxAdapter,
+  Bybit: bybitAdapter,
+  Deribit: deribitAdapter,
+  Binance: binanceAdapter,
+  Coinbase: coinbaseAdapter,
+  Kraken: krakenAdapter,
+}
+
+export const VENUES = Object.keys(VENUE_ADAPTERS) as Venue[]
+
+export function getVenueAdapter(venue: Venue): VenueAdapter {
+  return VENUE_ADAPTERS[venue]
+}
+
+export function toVenueSymbol(venue: Venue, instrument: Instrument) {
+  return getVenueAdapter(venue).toVenueSymbol(instrument)
+}
+
+export function fromVenueSymbol(venue: Venue, venueSymbol: string, category?: string) {
+  return getVenueAdapter(venue).fromVenueSymbol(venueSymbol, category)
+}
+
+// Venue instrument name for a canonical symbol, or null when it cannot be listed there
+export function resolveVenueSymbol(venue: Venue, symbol: string) {
+  const instrument = parseSymbol(symbol)
+  return instrument ? toVenueSymbol(venue, instrument) : null
+}
@@ -0,0 +1,126 @@
+import type { Instrument, InstrumentSpec } from "../types/instrument"
+import type { BookLevelChange } from "../types/orderbook"
+import type { VenueAdapter } from "../types/venue"
+import type { BookLevel } from "../lib/orderbookEngine"
+import { crc32 } from "../lib/checksum"
+import { createInstrumentSpec, fetchJson, toPositiveNumber, toPriceTicker } from "./shared"
+
+const CHECKSUM_DEPTH = 10
+
+// The v2 API uses the common tickers where the REST pair listing still has Kraken's legacy asset codes
+const LEGACY_ASSETS: Record<string, string> = { XBT: "BTC", XDG: "DOGE" }
+
+// v2 book levels are objects with numeric price and qty; a qty of 0 removes the level
+function toQtyChange(level: { price: number; qty: number }): BookLevelChange {
+  return { action: level.qty > 0 ? "update" : "delete", price: level.price, quantity: level.qty }
+}
+
+// Each value is printed with the pair's precision, then the decimal point and any leading zeros are removed
+function checksumValueText(value: number, precision: number) {
+  return value.toFixed(precision).replace(".", "").replace(/^0+/, "")
+}
+
+function checksumSideText(levels: BookLevel[], spec: InstrumentSpec) {
+  return levels
+    .slice(0, CHECKSUM_DEPTH)
+    .map(
+      (level) =>
+        checksumValueText(level.price, spec.pricePrecision!) + checksumValueText(level.quantity, spec.sizePrecision!),
+    )
+    .join("")
+}
+
+function toKrakenSymbol(instrument: Instrument) {
+  return instrument.kind === "spot" ? `${instrument.base}/${instrument.quote}` : null
+}
+
+function fromKrakenSymbol(symbol: string): Instrument | null {
+  const [base, quote, ...rest] = symbol.split("/")
+  return base && quote && rest.length === 0 ? { base, quote, kind: "spot" } : null
+}
+
+export const krakenAdapter: VenueAdapter = {
+  venue: "Kraken",
+
+  getWebSocketUrl: () => "wss://ws.kraken.com/v2",
+
+  getDepthOptions: () => [100, 10, 25, 500, 1000],
+
+  getSubscribeMessage: (_instrument, venueSymbol, depth) => ({
+    method: "subscribe",
+    params: {
+      channel: "book",
+      symbol: [venueSymbol],
+      depth,
+    },
+  }),
+
+  getUnsubscribeMessage: (_instrument, venueSymbol, depth) => ({
+    method: "unsubscribe",
+    params: { channel: "book", symbol: [venueSymbol], depth },
+  }),
+
+  // Spot only, so there is no mark price; ticker messages carry no timestamp
+  getTickerSubscribeMessage: (_instrument, venueSymbol) => ({
+    method: "subscribe",
+    params: { channel: "ticker", symbol: [venueSymbol] },
+  }),
+
+  parseTicker: (data) =>
+    data.channel === "ticker" && data.data?.[0] ? toPriceTicker({ last: data.data[0].last }, Date.now()) : null,
+
+  // Book updates only come when levels change. Kraken sends a heartbeat message about once a second while a
+  // subscription has nothing else to send, so like Coinbase's those count as the feed being alive.
+  heartbeat: {
+    intervalMs: 20000,
+    ping: JSON.stringify({ method: "ping" }),
+    isPong: (raw) => raw.length < 256 && (raw.includes('"pong"') || raw.includes('"channel":"heartbeat"')),
+    isLiveness: true,
+  },
+
+  parseMessage: (data) => {
+    if (data.channel !== "book" || !data.data?.[0]) return null
+    const book = data.data[0]
+    return {
+      type: data.type === "snapshot" ? "snapshot" : "delta",
+      venue: "Kraken",
+      symbol: book.symbol,
+      bids: book.bids.map(toQtyChange),
+      asks: book.asks.map(toQtyChange),
+      timestamp: Date.parse(book.timestamp) || Date.now(),
+      checksum: book.checksum,
+    }
+  },
+
+  // CRC-32 over the top 10 asks from the lowest price up followed by the top 10 bids from the highest down
+  verifyChecksum: (book, update, spec) => {
+    if (spec?.pricePrecision === undefined || spec.sizePrecision === undefined) return undefined
+    return crc32(checksumSideText(book.asks, spec) + checksumSideText(book.bids, spec)) === update.checksum
+  },
+
+  toVenueSymbol: toKrakenSymbol,
+  fromVenueSymbol: fromKrakenSymbol,
+
+  fetchInstruments: async () => {
+    const response = await fetchJson("https://api.kraken.com/0/public/AssetPairs")
+
+    return Object.values<any>(response.result ?? {})
+      .filter((item) => item.wsname && item.status === "online")
+      .map((item) => {
+        const venueSymbol = item.wsname
+          .split("/")
+          .map((asset: string) => LEGACY_ASSETS[asset] ?? asset)
+          .join("/")
+        const lotSize = 10 ** -item.lot_decimals
+        return createInstrumentSpec(krakenAdapter, venueSymbol, {
+          tickSize: toPositiveNumber(item.tick_size, 10 ** -item.pair_decimals),
+          lotSize,
+          minSize: toPositiveNumber(item.ordermin, lotSize),
+          contractMultiplier: 1,
+          pricePrecision: item.pair_decimals,
+          sizePrecision: item.lot_decimals,
+        })
+      })
+      .filter((spec): spec is InstrumentSpec => spec !== null)
+  },
+}
@@ -0,0 +1,150 @@
+import type { Instrument, InstrumentSpec } from "../types/instrument"
+import type { VenueAdapter } from "../types/venue"
+import type { BookLevel, LocalOrderbook } from "../lib/orderbookEngine"
+import { crc32 } from "../lib/checksum"
+import { fromYymmdd, optionSuffix, parseOptionType, toYymmdd } from "../lib/instruments"
+import { createInstrumentSpec, fetchJson, toPositiveNumber, toPriceTicker, toSizeChange } from "./shared"
+
+const CHECKSUM_DEPTH = 25
+
+// books streams 400 levels every 100ms. The tick-by-tick channels need a logged-in connection, which the public socket
+// does not have.
+const BOOK_CHANNEL = "books"
+
+function checksumLevelText(level: BookLevel) {
+  return level.raw ? `${level.raw[0]}:${level.raw[1]}` : `${level.price}:${level.quantity}`
+}
+
+// OKX interleaves the top 25 bids and asks as "bidPx:bidSz:askPx:askSz:..." using the exact strings it sent,
+// skipping a side once it runs out of levels, and publishes the CRC-32 as a signed 32-bit integer
+export function okxBookChecksum(book: LocalOrderbook): number {
+  const parts: string[] = []
+  for (let i = 0; i < CHECKSUM_DEPTH; i++) {
+    if (book.bids[i]) parts.push(checksumLevelText(book.bids[i]))
+    if (book.asks[i]) parts.push(checksumLevelText(book.asks[i]))
+  }
+  return crc32(parts.join(":")) | 0
+}
+
+function toOkxSymbol(instrument: Instrument) {
+  const pair = `${instrument.base}-${instrument.quote}`
+  const isMarginQuote = ["USDT", "USDC", "USD"].includes(instrument.quote)
+
+  switch (instrument.kind) {
+    case "spot":
+      return pair
+    case "perp":
+      return isMarginQuote ? `${pair}-SWAP` : null
+    case "future":
+      return isMarginQuote ? `${pair}-${toYymmdd(instrument.expiry!)}` : null
+    case "option":
+      return instrument.quote === "USD" ? `${pair}-${toYymmdd(instrument.expiry!)}-${optionSuffix(instrument)}` : null
+  }
+}
+
+function fromOkxSymbol(symbol: string): Instrument | null {
+  const [base, quote, ...rest] = symbol.split("-")
+  if (!base || !quote) return null
+  if (rest.length === 0) return { base, quote, kind: "spot" }
+  if (rest.length === 1 && rest[0] === "SWAP") return { base, quote, kind: "perp" }
+
+  const expiry = fromYymmdd(rest[0])
+  if (!expiry) return null
+  if (rest.length === 1) return { base, quote, kind: "future", expiry }
+
+  const optionType = parseOptionType(rest[2])
+  if (rest.length === 3 && optionType) {
+    return { base, quote, kind: "option", expiry, strike: Number.parseFloat(rest[1]), optionType }
+  }
+  return null
+}
+
+export const okxAdapter: VenueAdapter = {
+  venue: "OKX",
+
+  getWebSocketUrl: () => "wss://ws.okx.com:8443/ws/v5/public",
+
+  getDepthOptions: () => [400],
+
+  getSubscribeMessage: (_instrument, venueSymbol) => ({
+    op: "subscribe",
+    args: [
+      {
+        channel: BOOK_CHANNEL,
+        instId: venueSymbol,
+      },
+    ],
+  }),
+
+  getUnsubscribeMessage: (_instrument, venueSymbol) => ({
+    op: "unsubscribe",
+    args: [{ channel: BOOK_CHANNEL, instId: venueSymbol }],
+  }),
+
+  // tickers carries the last trade price; mark-price is only published for derivatives
+  getTickerSubscribeMessage: (instrument, venueSymbol) => ({
+    op: "subscribe",
+    args: [
+      { channel: "tickers", instId: venueSymbol },
+      ...(instrument.kind === "spot" ? [] : [{ channel: "mark-price", instId: venueSymbol }]),
+    ],
+  }),
+
+  parseTicker: (data) => {
+    const channel = data.arg?.channel
+    if ((channel !== "tickers" && channel !== "mark-price") || !data.data?.[0]) return null
+    const item = data.data[0]
+    return toPriceTicker({ last: item.last, mark: item.markPx }, Number.parseInt(item.ts))
+  },
+
+  // OKX drops connections that stay silent for 30 seconds
+  heartbeat: {
+    intervalMs: 20000,
+    ping: "ping",
+    isPong: (raw) => raw === "pong",
+  },
+
+  // Rejected subscriptions come back as an error event instead of closing the socket
+  parseError: (data) => (data.event === "error" ? `OKX error ${data.code}: ${data.msg}` : null),
+
+  parseMessage: (data) => {
+    // OKX sends one "snapshot" on subscribe followed by "update" messages with changed levels only
+    if (!data.data || !data.data[0] || !data.arg) return null
+    const book = data.data[0]
+    return {
+      type: data.action === "snapshot" ? "snapshot" : "delta",
+      venue: "OKX",
+      symbol: data.arg.instId,
+      bids: book.bids.map(toSizeChange),
+      asks: book.asks.map(toSizeChange),
+      timestamp: Number.parseInt(book.ts),
+      checksum: typeof book.checksum === "number" ? book.checksum : undefined,
+    }
+  },
+
+  verifyChecksum: (book, update) => okxBookChecksum(book) === update.checksum,
+
+  toVenueSymbol: toOkxSymbol,
+  fromVenueSymbol: fromOkxSymbol,
+
+  fetchInstruments: async () => {
+    const responses = await Promise.all(
+      ["SPOT", "SWAP", "FUTURES"].map((instType) =>
+        fetchJson(`https://www.okx.com/api/v5/public/instruments?instType=${instType}`),
+      ),
+    )
+
+    return responses
+      .flatMap((response) => response.data ?? [])
+      .filter((item: any) => item.state === "live")
+      .map((item: any) =>
+        createInstrumentSpec(okxAdapter, item.instId, {
+          tickSize: toPositiveNumber(item.tickSz, 0),
+          lotSize: toPositiveNumber(item.lotSz, 0),
+          minSize: toPositiveNumber(item.minSz, 0),
+          contractMultiplier: toPositiveNumber(item.ctVal, 1) * toPositiveNumber(item.ctMult, 1),
+        }),
+      )
+      .filter((spec): spec is InstrumentSpec => spec !== null)
+  },
+}
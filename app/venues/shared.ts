@@ -0,0 +1,54 @@
+import type { InstrumentSpec } from "../types/instrument"
+import type { BookLevelChange, PriceTicker } from "../types/orderbook"
+import type { VenueAdapter } from "../types/venue"
+import { formatSymbol } from "../lib/instruments"
+
+export async function fetchJson(url: string) {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText} from ${url}`)
+  }
+  return response.json()
+}
+
+export function toPositiveNumber(value: unknown, fallback: number) {
+  const parsed = Number.parseFloat(String(value))
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+// Most venues send deltas as the new absolute size of a level, where a size of zero removes it
+export function toSizeChange([price, quantity]: string[]): BookLevelChange {
+  const size = Number.parseFloat(quantity)
+  return {
+    action: size > 0 ? "update" : "delete",
+    price: Number.parseFloat(price),
+    quantity: size,
+    raw: [price, quantity],
+  }
+}
+
+// Keeps only the prices a ticker message actually carried, so merging it into the last ticker leaves the others be
+export function toPriceTicker(prices: { last?: unknown; mark?: unknown }, timestamp: number): PriceTicker {
+  const ticker: PriceTicker = { timestamp: Number.isFinite(timestamp) ? timestamp : Date.now() }
+  const last = toPositiveNumber(prices.last, 0)
+  const mark = toPositiveNumber(prices.mark, 0)
+  if (last > 0) ticker.last = last
+  if (mark > 0) ticker.mark = mark
+  return ticker
+}
+
+// Only keeps instruments whose venue name maps back to the same canonical symbol, so the catalog and the
+// subscription code always agree on what an instrument is called
+export function createInstrumentSpec(
+  adapter: Pick<VenueAdapter, "venue" | "toVenueSymbol" | "fromVenueSymbol">,
+  venueSymbol: string,
+  rules: Pick<
+    InstrumentSpec,
+    "tickSize" | "lotSize" | "minSize" | "contractMultiplier" | "pricePrecision" | "sizePrecision"
+  >,
+  category?: string,
+): InstrumentSpec | null {
+  const instrument = adapter.fromVenueSymbol(venueSymbol, category)
+  if (!instrument || adapter.toVenueSymbol(instrument) !== venueSymbol) return null
+  return { venue: adapter.venue, symbol: formatSymbol(instrument), venueSymbol, instrument, ...rules }
+}
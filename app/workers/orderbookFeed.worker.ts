@@ -0,0 +1,30 @@
+import type { FeedCommand, FeedWorkerMessage } from "../types/feed"
+import { createFeedSession, type FeedSession } from "../lib/feedSession"
+
+// The project only pulls in the DOM typings, so the worker scope is described here
+const scope = self as unknown as {
+  postMessage: (message: FeedWorkerMessage) => void
+  onmessage: ((event: MessageEvent<FeedCommand>) => void) | null
+}
+
+// At most one feed runs per worker; connecting again replaces it
+let session: FeedSession | null = null
+
+scope.onmessage = (event) => {
+  const command = event.data
+  switch (command.type) {
+    case "connect": {
+      session?.close()
+      const { sessionId } = command
+      session = createFeedSession(command.config, (feedEvent) => scope.postMessage({ ...feedEvent, sessionId }))
+      break
+    }
+    case "configure":
+      session?.configure(command.settings)
+      break
+    case "disconnect":
+      session?.close()
+      session = null
+      break
+  }
+}